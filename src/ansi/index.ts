@@ -7,6 +7,10 @@
  *   CURSOR_HIDE,
  *   CURSOR_SHOW,
  *   CLEAR_LINE,
+ *   getTerminalWidth,
+ *   stringWidth,
+ *   truncate,
+ *   wrap,
  *   write,
  *   isTTY,
  * } from "@beorn/inkx-ui/ansi";
@@ -16,6 +20,11 @@
  *   // ... do work ...
  *   write(CURSOR_SHOW);
  * }
+ *
+ * // Display width of styled, CJK or emoji text
+ * stringWidth("\x1b[32m✔\x1b[39m 日本"); // 6
+ * truncate(label, 20);
+ * wrap(description, getTerminalWidth());
  * ```
  */
 
@@ -33,6 +42,7 @@ export {
   CLEAR_LINE,
   CLEAR_LINE_END,
   CLEAR_SCREEN,
+  CLEAR_SCREEN_END,
   // Writing utilities
   write,
   writeLine,
@@ -40,4 +50,45 @@ export {
   // Terminal detection
   isTTY,
   getTerminalWidth,
+  onResize,
 } from "../cli/ansi.js"
+
+// Display-width text helpers from cli/text.ts
+export {
+  stripAnsi,
+  stringWidth,
+  truncate,
+  wrap,
+  charWidth,
+  graphemeWidth,
+} from "../cli/text.js"
+
+// Terminal capabilities from utils/capabilities.ts
+export {
+  detectCapabilities,
+  getCapabilities,
+  setCapabilities,
+  hyperlink,
+  SYNC_START,
+  SYNC_END,
+  type ColorDepth,
+  type TerminalCapabilities,
+} from "../utils/capabilities.js"
+
+// Tab/taskbar progress (OSC 9;4) from cli/terminal-progress.ts
+export {
+  createTerminalProgress,
+  terminalProgressSequence,
+  type TerminalProgress,
+  type TerminalProgressState,
+} from "../cli/terminal-progress.js"
+
+// Window title progress (OSC 0) from cli/terminal-title.ts
+export {
+  createTerminalTitle,
+  formatProgressTitle,
+  titleSequence,
+  TITLE_PUSH,
+  TITLE_POP,
+  type TerminalTitle,
+} from "../cli/terminal-title.js"
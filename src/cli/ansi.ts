@@ -17,6 +17,9 @@ export const CLEAR_LINE_END = "\x1b[K"
 /** Clear entire line */
 export const CLEAR_LINE = "\x1b[2K"
 
+/** Clear from cursor to end of screen */
+export const CLEAR_SCREEN_END = "\x1b[J"
+
 /** Clear screen and move to top-left */
 export const CLEAR_SCREEN = "\x1b[2J\x1b[H"
 
@@ -86,6 +89,25 @@ export function isTTY(stream: NodeJS.WriteStream = process.stdout): boolean {
   return stream.isTTY ?? false
 }
 
+/**
+ * Call a function whenever the terminal is resized (SIGWINCH)
+ *
+ * Node emits `resize` on TTY write streams when the window size changes.
+ * Returns a function that removes the listener; a no-op for non-TTY streams.
+ */
+export function onResize(
+  stream: NodeJS.WriteStream,
+  callback: () => void,
+): () => void {
+  if (!stream.isTTY || typeof stream.on !== "function") {
+    return () => {}
+  }
+  stream.on("resize", callback)
+  return () => {
+    stream.off("resize", callback)
+  }
+}
+
 /**
  * Get terminal width
  */
@@ -0,0 +1,41 @@
+/**
+ * Console redirection for live progress displays
+ *
+ * While a spinner or multi-progress region is being redrawn, a stray
+ * `console.log` writes into the middle of it. Patching routes console output
+ * through the display's `log()` so it lands above the live region instead.
+ */
+
+import { format } from "node:util"
+
+/** Console methods redirected while patched */
+const PATCHED_METHODS = ["log", "info", "warn", "error"] as const
+
+/**
+ * Redirect console.log/info/warn/error to a log function
+ *
+ * Arguments are formatted like the console does (`util.format`).
+ *
+ * @param log - Receives each formatted message
+ * @returns Function that restores the previous console methods
+ *
+ * @example
+ * ```ts
+ * const restore = patchConsole((text) => multi.log(text))
+ * console.log("Fetched %d files", 12) // printed above the live region
+ * restore()
+ * ```
+ */
+export function patchConsole(log: (text: string) => void): () => void {
+  const originals = PATCHED_METHODS.map((method) => console[method])
+
+  for (const method of PATCHED_METHODS) {
+    console[method] = (...args: unknown[]) => log(format(...args))
+  }
+
+  return () => {
+    PATCHED_METHODS.forEach((method, i) => {
+      console[method] = originals[i]!
+    })
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Frame diffing for multi-line live regions
+ *
+ * A frame is the list of lines currently drawn below the last permanent
+ * output. The cursor is assumed to sit at the start of the row just after
+ * the frame's last line (where writing `line\n` for each row leaves it).
+ */
+
+import { CLEAR_LINE, cursorUp, cursorDown } from "./ansi.js"
+
+/**
+ * Build the escape sequence that turns `prev` into `next` on screen
+ *
+ * Only rows that changed are rewritten; unchanged rows are skipped with
+ * cursor movement. Returns an empty string when the frames are identical,
+ * so callers can skip the write entirely.
+ *
+ * @example
+ * ```ts
+ * const out = diffFrame(["⠋ Build", "○ Test"], ["⠙ Build", "○ Test"])
+ * // Moves up 2 rows, rewrites row 0, moves down past row 1
+ * ```
+ */
+export function diffFrame(
+  prev: readonly string[],
+  next: readonly string[],
+): string {
+  const first = firstDifference(prev, next)
+  if (first === -1) {
+    return ""
+  }
+
+  let out = ""
+  let skipped = 0
+
+  // Move from below the previous frame up to the first changed row
+  if (prev.length > first) {
+    out += cursorUp(prev.length - first)
+  }
+
+  for (let i = first; i < next.length; i++) {
+    if (i < prev.length && prev[i] === next[i]) {
+      skipped++
+      continue
+    }
+    if (skipped > 0) {
+      out += cursorDown(skipped)
+      skipped = 0
+    }
+    out += `${CLEAR_LINE}${next[i]}\n`
+  }
+
+  if (next.length < prev.length) {
+    // Frame shrank: blank out leftover rows, then return below the new frame
+    if (skipped > 0) {
+      out += cursorDown(skipped)
+    }
+    const start = Math.max(first, next.length)
+    for (let i = start; i < prev.length; i++) {
+      out += `${CLEAR_LINE}\n`
+    }
+    out += cursorUp(prev.length - next.length)
+  } else if (skipped > 0) {
+    out += cursorDown(skipped)
+  }
+
+  return out
+}
+
+/**
+ * Index of the first row that differs, or -1 if the frames are identical
+ */
+function firstDifference(
+  prev: readonly string[],
+  next: readonly string[],
+): number {
+  const length = Math.max(prev.length, next.length)
+  for (let i = 0; i < length; i++) {
+    if (prev[i] !== next[i]) {
+      return i
+    }
+  }
+  return -1
+}
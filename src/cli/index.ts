@@ -36,9 +36,74 @@
 export {
   Spinner,
   SPINNER_FRAMES,
+  SPINNER_INTERVALS,
+  registerSpinner,
+  registerSpinners,
+  resolveSpinner,
   createSpinner,
   type CallableSpinner,
 } from "./spinner.js"
 export { ProgressBar } from "./progress-bar.js"
-export { MultiProgress, type TaskHandle } from "./multi-progress.js"
+export {
+  MultiProgress,
+  type TaskHandle,
+  type MultiProgressMode,
+  type MultiProgressOptions,
+} from "./multi-progress.js"
+export { patchConsole } from "./console-patch.js"
+export { createNdjsonReporter } from "./ndjson-reporter.js"
+export {
+  compileTemplate,
+  renderTemplate,
+  escapeTemplate,
+  type Template,
+  type TemplateValue,
+  type TemplateAlign,
+} from "./template.js"
+export {
+  setTheme,
+  getTheme,
+  DEFAULT_THEME,
+  ASCII_THEME,
+} from "../utils/theme.js"
+export {
+  createAnimationClock,
+  createManualTicker,
+  getAnimationClock,
+  setAnimationClock,
+  type AnimationClock,
+  type ManualTicker,
+  type Ticker,
+} from "../utils/clock.js"
+export {
+  detectAccessibility,
+  getAccessibility,
+  isAccessibleMode,
+  setAccessibleMode,
+  type Accessibility,
+} from "../utils/accessibility.js"
+export {
+  detectCapabilities,
+  getCapabilities,
+  setCapabilities,
+  hyperlink,
+  SYNC_START,
+  SYNC_END,
+  type ColorDepth,
+  type TerminalCapabilities,
+} from "../utils/capabilities.js"
+export {
+  createTerminalProgress,
+  terminalProgressSequence,
+  type TerminalProgress,
+  type TerminalProgressState,
+} from "./terminal-progress.js"
+export {
+  createTerminalTitle,
+  formatProgressTitle,
+  titleSequence,
+  TITLE_PUSH,
+  TITLE_POP,
+  type TerminalTitle,
+} from "./terminal-title.js"
 export * from "./ansi.js"
@@ -2,26 +2,144 @@
  * MultiProgress - Container for managing multiple concurrent progress indicators
  */
 
-import chalk from "chalk"
-import type { SpinnerStyle, TaskStatus } from "../types.js"
+import type {
+  BarSegment,
+  BarStyle,
+  BarStyleName,
+  ByteUnits,
+  ProgressEvent,
+  ProgressReporter,
+  ProgressUnit,
+  SpinnerDefinition,
+  SpinnerStyle,
+  TaskStatus,
+  Theme,
+  ThemeOverrides,
+} from "../types.js"
 import {
   CURSOR_HIDE,
   CURSOR_SHOW,
   CLEAR_LINE,
+  CLEAR_SCREEN_END,
   cursorUp,
   write,
   isTTY,
+  getTerminalWidth,
+  onResize,
 } from "./ansi.js"
-import { Spinner, SPINNER_FRAMES } from "./spinner.js"
+import { diffFrame } from "./frame-diff.js"
+import { truncate, countRows } from "./text.js"
+import { patchConsole } from "./console-patch.js"
+import { Spinner, resolveSpinner } from "./spinner.js"
 import { ProgressBar } from "./progress-bar.js"
+import {
+  renderBar,
+  renderStackedBar,
+  resolveSegments,
+  type ResolvedSegment,
+} from "../utils/bar.js"
+import {
+  calculateRate,
+  DEFAULT_ETA_BUFFER_SIZE,
+  type ETASample,
+} from "../utils/eta.js"
+import { formatAmount, formatRate } from "../utils/format.js"
+import { createThrottle, type Throttle } from "../utils/throttle.js"
+import { colorize, resolveTheme } from "../utils/theme.js"
+import { getCapabilities, SYNC_START, SYNC_END } from "../utils/capabilities.js"
+import {
+  createTerminalProgress,
+  type TerminalProgress,
+} from "./terminal-progress.js"
+import {
+  createTerminalTitle,
+  formatProgressTitle,
+  type TerminalTitle,
+} from "./terminal-title.js"
+import {
+  formatAnnouncement,
+  isAccessibleMode,
+  type AnnouncementStatus,
+} from "../utils/accessibility.js"
+import {
+  frameAt,
+  getAnimationClock,
+  type AnimationClock,
+} from "../utils/clock.js"
+
+/** Redraw interval while live (ms); spinners pick frames from the clock */
+const ANIMATION_INTERVAL = 80
 
-/** Status icons */
-const STATUS_ICONS: Record<TaskStatus, string> = {
-  pending: chalk.gray("○"),
-  running: "", // Will be replaced with spinner frame
-  completed: chalk.green("✔"),
-  failed: chalk.red("✖"),
-  skipped: chalk.yellow("⊘"),
+/** Signals that stop the display before the process ends */
+const STOP_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM", "SIGHUP"]
+
+/**
+ * Render mode for MultiProgress
+ *
+ * - `live`: redraw all task lines in place with animated spinners (TTY
+ *   only: on other streams it falls back to `plain`)
+ * - `plain`: print each status transition once as a permanent line (CI, pipes)
+ * - `silent`: write nothing (e.g. when only a reporter is wanted)
+ * - `auto`: `live` when the stream is a TTY, otherwise `plain`
+ *
+ * In accessible mode `live` and `auto` print plain transitions, worded as
+ * sentences ("Started: Build", "Completed in 1.2s: Build").
+ */
+export type MultiProgressMode = "auto" | "live" | "plain" | "silent"
+
+/** Options for MultiProgress */
+export interface MultiProgressOptions {
+  /** Render mode (default: "auto") */
+  mode?: MultiProgressMode
+  /**
+   * Fit the live region to the terminal height (default: true)
+   *
+   * When there are more task lines than rows, finished groups collapse to a
+   * single line and completed tasks are folded into a "… N more completed"
+   * marker, keeping running and failed tasks visible.
+   */
+  viewport?: boolean
+  /** Maximum rows for the live region (default: terminal rows - 1) */
+  maxHeight?: number
+  /**
+   * Route console.log/info/warn/error through `log()` while active
+   * (default: false)
+   */
+  patchConsole?: boolean
+  /** Receives an event for every task transition and progress update */
+  reporter?: ProgressReporter
+  /** Default style for bar tasks (default: the theme's bar) */
+  barStyle?: BarStyleName | BarStyle
+  /** Byte prefixes for bar tasks counting bytes (default: "si") */
+  byteUnits?: ByteUnits
+  /**
+   * Minimum ms between redraws for title and progress updates (default: 80,
+   * one animation frame); a burst of updates is drawn once at the end of the
+   * interval, status changes always redraw immediately
+   */
+  throttle?: number
+  /** Theme overrides for this display (default: the global theme) */
+  theme?: ThemeOverrides
+  /** Animation clock (default: the shared clock) */
+  clock?: AnimationClock
+  /**
+   * Announce transitions as sentences instead of redrawing (default:
+   * accessible mode, see `setAccessibleMode()`)
+   */
+  accessible?: boolean
+  /**
+   * Mirror overall progress in the terminal's tab or taskbar with OSC 9;4
+   * (error state once a task fails; cleared on stop and on
+   * SIGINT/SIGTERM/SIGHUP; default: false)
+   */
+  terminalProgress?: boolean
+  /**
+   * Show overall progress and the running task in the terminal title, e.g.
+   * "[42%] Parsing markdown"; a string is appended as the program name
+   * ("[42%] Parsing markdown — km sync"). The original title is restored on
+   * stop, on exit and on SIGINT/SIGTERM/SIGHUP (default: false)
+   */
+  windowTitle?: boolean | string
 }
 
 /** Task configuration */
@@ -31,7 +149,12 @@ interface TaskConfig {
   status: TaskStatus
   total?: number
   current?: number
-  spinnerStyle?: SpinnerStyle
+  spinner?: SpinnerDefinition
+  barStyle?: BarStyleName | BarStyle
+  /** Bar tasks counting bytes also show amounts and throughput */
+  unit?: ProgressUnit
+  /** Stacked bar tasks draw one colored segment per counter */
+  segments?: ResolvedSegment[]
   indent?: number
 }
 
@@ -40,11 +163,30 @@ interface TaskState extends TaskConfig {
   id: string
   /** Completion time in ms (shown dimmed after title on completion) */
   completionTime?: number
+  /** Error message (set by fail()) */
+  error?: string
+  /** When the task started running (ms since epoch) */
+  startedAt?: number
+  /** Recent progress samples for throughput */
+  samples?: ETASample[]
+  /** Segment counters of a stacked bar task */
+  counts?: Record<string, number>
+}
+
+/** A rendered task line, plus how many descendant lines it stands for */
+interface Row {
+  task: TaskState
+  line: string
+  collapsed: number
 }
 
 /**
  * MultiProgress - Manage multiple concurrent progress indicators
  *
+ * When the output stream is not a TTY (CI, `| tee`), each start, complete,
+ * fail and skip transition is printed once as a plain line instead of
+ * redrawing the task list in place.
+ *
  * @example
  * ```ts
  * const multi = new MultiProgress();
@@ -67,12 +209,77 @@ export class MultiProgress {
   private taskOrder: string[] = []
   private stream: NodeJS.WriteStream
   private isActive = false
-  private timer: ReturnType<typeof setInterval> | null = null
-  private frameIndex = 0
-  private renderedLines = 0
+  /** Own clock, or undefined for the shared one */
+  private clock: AnimationClock | undefined
+  private stopAnimation: (() => void) | null = null
+  /** Lines drawn by the last live render (cursor sits just below them) */
+  private frame: string[] = []
+  private mode: "live" | "plain" | "silent"
+  private viewport: boolean
+  private maxHeight: number | undefined
+  private shouldPatchConsole: boolean
+  private restoreConsole: (() => void) | null = null
+  private removeResizeListener: (() => void) | null = null
+  private removeSignalListeners: (() => void) | null = null
+  private reporter: ProgressReporter | undefined
+  private barStyle: BarStyleName | BarStyle
+  private byteUnits: ByteUnits
+  private theme: Theme
+  private renderThrottle: Throttle
+  private startedAt = 0
+  /** Last status printed per task (plain mode) */
+  private printedStatus: Map<string, TaskStatus> = new Map()
+  /** Print plain transitions as sentences */
+  private accessible: boolean
+  /** Wrap live frames in synchronized-output markers */
+  private synchronized: boolean
+  /** Tab/taskbar progress (OSC 9;4), a no-op unless enabled */
+  private terminalProgress: TerminalProgress
+  /** Window title progress, a no-op unless enabled */
+  private terminalTitle: TerminalTitle
+  /** Program name shown after the task in the window title */
+  private titleName: string | undefined
+  /** Percent and task in the window title (-1: no title shown) */
+  private titlePercent = -1
+  private titleLabel: string | undefined
 
-  constructor(stream: NodeJS.WriteStream = process.stdout) {
+  constructor(
+    stream: NodeJS.WriteStream = process.stdout,
+    options: MultiProgressOptions = {},
+  ) {
     this.stream = stream
+    const mode = options.mode ?? "auto"
+    this.accessible = options.accessible ?? isAccessibleMode()
+    this.synchronized = getCapabilities(stream).synchronizedOutput
+    this.mode =
+      mode === "silent"
+        ? mode
+        : mode === "plain" || this.accessible || !isTTY(stream)
+          ? "plain"
+          : "live"
+    this.terminalProgress = createTerminalProgress(
+      stream,
+      (options.terminalProgress ?? false) && this.mode !== "silent",
+    )
+    this.terminalTitle = createTerminalTitle(
+      stream,
+      Boolean(options.windowTitle) && this.mode !== "silent",
+    )
+    this.titleName =
+      typeof options.windowTitle === "string" ? options.windowTitle : undefined
+    this.viewport = options.viewport ?? true
+    this.maxHeight = options.maxHeight
+    this.shouldPatchConsole = options.patchConsole ?? false
+    this.reporter = options.reporter
+    this.theme = resolveTheme(options.theme, this.stream)
+    this.clock = options.clock
+    this.barStyle = options.barStyle ?? this.theme.bar
+    this.byteUnits = options.byteUnits ?? "si"
+    this.renderThrottle = createThrottle(
+      () => this.render(),
+      options.throttle ?? ANIMATION_INTERVAL,
+      { leading: false },
+    )
   }
 
   /**
@@ -84,7 +291,11 @@ export class MultiProgress {
     options: {
       type?: "spinner" | "bar" | "group"
       total?: number
-      spinnerStyle?: SpinnerStyle
+      spinnerStyle?: SpinnerStyle | SpinnerDefinition
+      barStyle?: BarStyleName | BarStyle
+      unit?: ProgressUnit
+      /** Counters for a stacked bar, e.g. `["succeeded", "failed"]` */
+      segments?: (string | BarSegment)[]
       indent?: number
       insertAfter?: string
     } = {},
@@ -98,7 +309,10 @@ export class MultiProgress {
       status: "pending",
       total: options.total,
       current: 0,
-      spinnerStyle: options.spinnerStyle ?? "dots",
+      spinner: resolveSpinner(options.spinnerStyle ?? this.theme.spinner),
+      barStyle: options.barStyle ?? this.barStyle,
+      unit: options.unit ?? "count",
+      segments: options.segments && resolveSegments(options.segments),
       indent: options.indent ?? 0,
     }
 
@@ -117,6 +331,7 @@ export class MultiProgress {
     }
 
     if (this.isActive) {
+      this.updateTerminalProgress()
       this.render()
     }
 
@@ -132,18 +347,35 @@ export class MultiProgress {
     }
 
     this.isActive = true
+    this.startedAt = Date.now()
+    if (this.terminalProgress.active || this.terminalTitle.active) {
+      this.removeSignalListeners = this.stopOnSignals()
+    }
+    this.updateTerminalProgress()
+
+    if (this.shouldPatchConsole) {
+      this.restoreConsole = patchConsole((text) => this.log(text))
+    }
+
+    if (this.mode !== "live") {
+      // Transitions are printed (or not) as they happen - no animation needed
+      this.render()
+      return this
+    }
 
     if (isTTY(this.stream)) {
       write(CURSOR_HIDE, this.stream)
     }
 
+    this.removeResizeListener = onResize(this.stream, () => this.redraw())
+
     this.render()
 
-    // Start animation timer
-    this.timer = setInterval(() => {
-      this.frameIndex = (this.frameIndex + 1) % 10
-      this.render()
-    }, 80)
+    // Redraw on the animation clock; spinners in sync across displays
+    this.stopAnimation = (this.clock ?? getAnimationClock()).subscribe(
+      ANIMATION_INTERVAL,
+      () => this.render(),
+    )
 
     return this
   }
@@ -165,24 +397,55 @@ export class MultiProgress {
     }
 
     this.isActive = false
+    this.renderThrottle.cancel()
+    this.terminalProgress.clear()
+    this.terminalTitle.restore()
+    this.titlePercent = -1
 
-    if (this.timer) {
-      clearInterval(this.timer)
-      this.timer = null
+    if (this.stopAnimation) {
+      this.stopAnimation()
+      this.stopAnimation = null
+    }
+
+    if (this.restoreConsole) {
+      this.restoreConsole()
+      this.restoreConsole = null
+    }
+
+    if (this.removeResizeListener) {
+      this.removeResizeListener()
+      this.removeResizeListener = null
+    }
+
+    if (this.removeSignalListeners) {
+      this.removeSignalListeners()
+      this.removeSignalListeners = null
+    }
+
+    this.reportFinish()
+    this.reporter?.stop?.()
+
+    if (this.mode !== "live") {
+      // Flush any transitions not yet printed; printed lines can't be cleared
+      this.render()
+      return this
     }
 
     if (clear && isTTY(this.stream)) {
       // Clear all rendered lines
-      if (this.renderedLines > 0) {
-        write(cursorUp(this.renderedLines), this.stream)
-        for (let i = 0; i < this.renderedLines; i++) {
+      const rendered = this.frame.length
+      if (rendered > 0) {
+        write(cursorUp(rendered), this.stream)
+        for (let i = 0; i < rendered; i++) {
           write(`${CLEAR_LINE}\n`, this.stream)
         }
-        write(cursorUp(this.renderedLines), this.stream)
+        write(cursorUp(rendered), this.stream)
       }
+      this.frame = []
     } else {
-      // Final render
-      this.render()
+      // Final render shows every task; rows beyond the viewport are appended
+      // below the live region, so no cursor movement leaves the screen
+      this.render(true)
       write("\n", this.stream)
     }
 
@@ -193,15 +456,85 @@ export class MultiProgress {
     return this
   }
 
+  /**
+   * Print a permanent message above the live region
+   *
+   * Clears the task lines, writes the message, then redraws the tasks below
+   * it. Safe to call at any time; when the display is not live the message
+   * is simply written to the stream.
+   *
+   * @example
+   * ```ts
+   * multi.log("Fetched 12 files from cache")
+   * ```
+   */
+  log(message: string): this {
+    const text = message.endsWith("\n") ? message : `${message}\n`
+
+    if (this.mode === "silent") {
+      return this
+    }
+
+    if (!this.isActive || this.mode === "plain" || !isTTY(this.stream)) {
+      write(text, this.stream)
+      return this
+    }
+
+    // Clear the region (cursor ends where it started), write the message
+    // there, then draw the tasks again from scratch below it
+    write(diffFrame(this.frame, []) + text, this.stream)
+    this.frame = []
+    this.render()
+
+    return this
+  }
+
+  /**
+   * Stop on a signal nobody else handles, then end the process as the
+   * signal would have: the tab progress, title and cursor outlive the
+   * process, and signals skip `exit` handlers. With other listeners the
+   * host owns shutdown and stops the display itself.
+   * @returns Removes the listeners
+   */
+  private stopOnSignals(): () => void {
+    const onSignal = (signal: NodeJS.Signals) => {
+      if (process.listenerCount(signal) > 1) return
+      this.stop()
+      process.kill(process.pid, signal)
+    }
+    for (const signal of STOP_SIGNALS) {
+      process.on(signal, onSignal)
+    }
+    return () => {
+      for (const signal of STOP_SIGNALS) {
+        process.off(signal, onSignal)
+      }
+    }
+  }
+
   /** @internal Update task state */
   _updateTask(id: string, updates: Partial<TaskState>): void {
     const task = this.tasks.get(id)
     if (task) {
+      const previousStatus = task.status
+      if (updates.status === "running" && previousStatus !== "running") {
+        updates.startedAt = Date.now()
+      }
       Object.assign(task, updates)
-      // Only render immediately for status changes (complete/fail/etc.)
-      // Progress updates (current/total) are debounced by the 80ms animation timer
+      if (updates.current !== undefined) {
+        this.recordSample(task, updates.current)
+      }
+      if (this.reporter) {
+        this.reportUpdate(task, previousStatus, updates)
+      }
+      this.updateTerminalProgress()
+      // Status changes (complete/fail/etc.) render immediately; title and
+      // progress updates are drawn once at the end of the throttle interval
       if (this.isActive && updates.status) {
+        this.renderThrottle.cancel()
         this.render()
+      } else if (this.isActive) {
+        this.renderThrottle.schedule()
       }
     }
   }
@@ -211,64 +544,501 @@ export class MultiProgress {
     return this.tasks.get(id)
   }
 
-  private render(): void {
+  /**
+   * Mirror overall progress in the terminal's tab or taskbar and title
+   *
+   * Finished tasks count whole and running bars by their fraction (groups
+   * are left out); indeterminate until something is measurable, red once a
+   * task has failed. The title names the first running task. Nothing is
+   * computed unless one of them is written.
+   */
+  private updateTerminalProgress(): void {
+    if (!this.isActive) return
+    if (!this.terminalProgress.active && !this.terminalTitle.active) return
+
+    let count = 0
+    let done = 0
+    let measured = false
+    let failed = false
+    let label: string | undefined
+    for (const task of this.tasks.values()) {
+      if (task.type === "group") continue
+      count++
+      if (task.status === "failed") failed = true
+      if (task.status === "running") label ??= task.title
+      if (
+        task.status === "completed" ||
+        task.status === "failed" ||
+        task.status === "skipped"
+      ) {
+        done++
+        measured = true
+      } else if (task.status === "running" && task.type === "bar") {
+        done += task.total ? Math.min(1, (task.current ?? 0) / task.total) : 0
+        measured = true
+      }
+    }
+    if (count === 0) return
+
+    if (this.terminalProgress.active) {
+      const state = failed ? "error" : measured ? "normal" : "indeterminate"
+      this.terminalProgress.set(state, done / count)
+    }
+    // The title is formatted only when its percent or task changes
+    const percent = Math.floor((done / count) * 100)
+    if (
+      this.terminalTitle.active &&
+      (percent !== this.titlePercent || label !== this.titleLabel)
+    ) {
+      this.titlePercent = percent
+      this.titleLabel = label
+      this.terminalTitle.set(
+        formatProgressTitle(done / count, label, this.titleName),
+      )
+    }
+  }
+
+  /**
+   * Redraw the live region
+   * @param final - Render every task, ignoring the viewport (used on stop)
+   */
+  private render(final = false): void {
+    if (this.mode === "silent") {
+      return
+    }
+
+    if (this.mode === "plain") {
+      this.renderPlain()
+      return
+    }
+
     if (!isTTY(this.stream)) {
       return
     }
 
-    // Move cursor up to clear previous render
-    if (this.renderedLines > 0) {
-      write(cursorUp(this.renderedLines), this.stream)
+    const rows = this.buildRows()
+    const maxRows = this.getMaxRows()
+    const fitted =
+      !final && this.viewport && rows.length > maxRows
+        ? this.fitViewport(rows, maxRows)
+        : rows.map((row) => row.line)
+
+    // One physical row per line: cut anything that would wrap
+    const width = getTerminalWidth(this.stream) - 1
+    const lines = fitted.map((line) => truncate(line, width))
+
+    // Rewrite only the rows that changed since the last frame
+    const output = diffFrame(this.frame, lines)
+    if (output) {
+      // Terminals with synchronized output show the frame all at once
+      write(
+        this.synchronized ? `${SYNC_START}${output}${SYNC_END}` : output,
+        this.stream,
+      )
+    }
+
+    this.frame = lines
+  }
+
+  /**
+   * Redraw from scratch after a terminal resize
+   *
+   * Shrinking the window may reflow previously drawn lines onto several
+   * rows, so the whole region (at its new height) is cleared first.
+   */
+  private redraw(): void {
+    if (!this.isActive) return
+
+    const columns = getTerminalWidth(this.stream)
+    const height = this.frame.reduce(
+      (sum, line) => sum + countRows(line, columns),
+      0,
+    )
+    if (height > 0) {
+      write(cursorUp(height) + CLEAR_SCREEN_END, this.stream)
     }
 
-    const lines: string[] = []
+    this.frame = []
+    this.render()
+  }
 
+  /** Build one row per task, in display order */
+  private buildRows(): Row[] {
+    const rows: Row[] = []
     for (const id of this.taskOrder) {
       const task = this.tasks.get(id)
       if (!task) continue
+      rows.push({ task, line: this.formatLine(task), collapsed: 0 })
+    }
+    return rows
+  }
 
-      let icon: string
-      if (task.status === "running") {
-        if (task.type === "group") {
-          // Groups don't animate - keep pending icon while running
-          icon = STATUS_ICONS.pending
-        } else {
-          const frames = SPINNER_FRAMES[task.spinnerStyle ?? "dots"]
-          icon = chalk.cyan(frames[this.frameIndex % frames.length])
-        }
+  /** Format a single task line for live display */
+  private formatLine(task: TaskState, collapsed = 0): string {
+    let icon: string
+    if (task.status === "running") {
+      if (task.type === "group") {
+        // Groups don't animate - keep pending icon while running
+        icon = this.statusIcon("pending")
       } else {
-        icon = STATUS_ICONS[task.status]
+        const { frames, interval } = task.spinner!
+        const time = (this.clock ?? getAnimationClock()).now()
+        const frame = frames[frameAt(time, frames.length, interval)]!
+        icon = colorize(frame, this.theme.colors.running, this.stream)
       }
+    } else {
+      icon = this.statusIcon(task.status)
+    }
 
-      const indent = "  ".repeat(task.indent ?? 0)
-      let line = `${indent}${icon} ${task.title}`
+    const indent = "  ".repeat(task.indent ?? 0)
+    let line = `${indent}${icon} ${task.title}`
+
+    // Add progress bar for bar type
+    if (task.type === "bar" && task.total && task.total > 0) {
+      const percent = task.current! / task.total
+      line += ` ${this.formatBar(task, percent)} ${Math.round(percent * 100)}%`
+      if (task.unit === "bytes") {
+        const amount = (value: number) =>
+          formatAmount(value, "bytes", this.byteUnits)
+        const speed = calculateRate(task.samples ?? [])
+        line += colorize(
+          ` ${amount(task.current!)}/${amount(task.total)} ${formatRate(speed, "bytes", this.byteUnits)}`,
+          "dim",
+          this.stream,
+        )
+      }
+      if (task.segments) {
+        const counts = task.segments.map(
+          ({ name, color }) =>
+            `${colorize(String(task.counts?.[name] ?? 0), color, this.stream)} ${name}`,
+        )
+        line += colorize(` ${counts.join(" · ")}`, "dim", this.stream)
+      }
+    }
+
+    // Add completion time in dimmed text
+    if (task.status === "completed" && task.completionTime !== undefined) {
+      line += colorize(` ${task.completionTime}ms`, "dim", this.stream)
+    }
+
+    if (collapsed > 0) {
+      line += colorize(
+        ` (${collapsed} ${collapsed === 1 ? "step" : "steps"})`,
+        "dim",
+        this.stream,
+      )
+    }
+
+    return line
+  }
+
+  /** Draw a bar task's bar, stacked when it has segments */
+  private formatBar(task: TaskState, percent: number): string {
+    if (task.segments) {
+      const { segments, empty } = renderStackedBar(
+        task.segments.map(({ name }) => task.counts?.[name] ?? 0),
+        task.total!,
+        20,
+        task.barStyle,
+      )
+      return (
+        segments
+          .map((part, i) =>
+            colorize(part, task.segments![i]!.color, this.stream),
+          )
+          .join("") + colorize(empty, this.theme.colors.barEmpty, this.stream)
+      )
+    }
+
+    const { filled, empty } = renderBar(percent, 20, task.barStyle)
+    return (
+      colorize(filled, this.theme.colors.bar, this.stream) +
+      colorize(empty, this.theme.colors.barEmpty, this.stream)
+    )
+  }
+
+  /** Themed icon for a finished or pending task */
+  private statusIcon(status: Exclude<TaskStatus, "running">): string {
+    return colorize(
+      this.theme.icons[status],
+      this.theme.colors[status],
+      this.stream,
+    )
+  }
+
+  /** Rows available to the live region */
+  private getMaxRows(): number {
+    if (this.maxHeight !== undefined) {
+      return Math.max(1, this.maxHeight)
+    }
+    // Keep one row free for the cursor line below the region
+    const rows = this.stream.rows
+    return rows && rows > 1 ? rows - 1 : Infinity
+  }
+
+  /**
+   * Reduce rows to at most `maxRows` lines
+   *
+   * 1. Finished groups collapse to their own line with a step count
+   * 2. Completed/skipped rows fold into a "… N more completed" marker
+   * 3. Pending rows past the limit fold into a "… N more pending" marker
+   * 4. Running and failed rows stay visible unless they alone overflow
+   */
+  private fitViewport(rows: Row[], maxRows: number): string[] {
+    const visible = collapseFinishedGroups(rows).map((row) =>
+      row.collapsed > 0
+        ? { ...row, line: this.formatLine(row.task, row.collapsed) }
+        : row,
+    )
+    if (visible.length <= maxRows) {
+      return visible.map((row) => row.line)
+    }
+
+    const isDone = (row: Row) =>
+      row.task.status === "completed" || row.task.status === "skipped"
+    const hidden = new Set<Row>()
+    const marker = (count: number, what: string) =>
+      colorize(`… ${count} more ${what}`, "dim", this.stream)
+
+    // Fold finished rows (oldest first); the marker takes one row
+    let excess = visible.length - maxRows
+    let doneHidden = 0
+    const done = visible.filter(isDone)
+    if (excess > 0 && done.length > 0) {
+      excess++
+      for (const row of done) {
+        if (excess <= 0) break
+        hidden.add(row)
+        doneHidden++
+        excess--
+      }
+    }
+
+    // Fold pending rows from the bottom; their marker takes one row too
+    let pendingHidden = 0
+    const pending = visible.filter((row) => row.task.status === "pending")
+    if (excess > 0 && pending.length > 0) {
+      excess++
+      for (let i = pending.length - 1; i >= 0 && excess > 0; i--) {
+        hidden.add(pending[i]!)
+        pendingHidden++
+        excess--
+      }
+    }
 
-      // Add progress bar for bar type
-      if (task.type === "bar" && task.total && task.total > 0) {
-        const percent = task.current! / task.total
-        const barWidth = 20
-        const filled = Math.round(barWidth * percent)
-        const empty = barWidth - filled
-        const bar =
-          chalk.cyan("█".repeat(filled)) + chalk.gray("░".repeat(empty))
-        line += ` ${bar} ${Math.round(percent * 100)}%`
+    const lines: string[] = []
+    let doneMarkerShown = false
+    for (const row of visible) {
+      if (!hidden.has(row)) {
+        lines.push(row.line)
+      } else if (isDone(row) && !doneMarkerShown) {
+        // Marker takes the place of the first folded row
+        lines.push(marker(doneHidden, "completed"))
+        doneMarkerShown = true
       }
+    }
+    if (pendingHidden > 0) {
+      lines.push(marker(pendingHidden, "pending"))
+    }
+
+    // Only running/failed rows left and still too many: hard cap
+    if (lines.length > maxRows) {
+      const overflow = lines.length - maxRows + 1
+      return [
+        ...lines.slice(0, maxRows - 1),
+        colorize(`… ${overflow} more`, "dim", this.stream),
+      ]
+    }
+
+    return lines
+  }
+
+  /** Keep a sliding window of progress samples for the task's throughput */
+  private recordSample(task: TaskState, value: number): void {
+    const samples = (task.samples ??= [])
+    samples.push({ time: Date.now(), value })
+    if (samples.length > DEFAULT_ETA_BUFFER_SIZE) {
+      samples.shift()
+    }
+  }
+
+  /** Send events for a task update to the reporter */
+  private reportUpdate(
+    task: TaskState,
+    previousStatus: TaskStatus,
+    updates: Partial<TaskState>,
+  ): void {
+    const base = {
+      id: task.id,
+      title: task.title,
+      parent: this.findParentId(task.id),
+      time: Date.now(),
+    }
+
+    if (updates.current !== undefined || updates.total !== undefined) {
+      this.emit({
+        ...base,
+        type: "progress",
+        current: task.current ?? 0,
+        total: task.total,
+        counts: task.counts && { ...task.counts },
+      })
+    }
+
+    if (!updates.status || updates.status === previousStatus) {
+      return
+    }
+
+    const duration =
+      task.completionTime ??
+      (task.startedAt !== undefined ? base.time - task.startedAt : undefined)
+
+    switch (task.status) {
+      case "running":
+        this.emit({ ...base, type: "start" })
+        break
+      case "completed":
+        this.emit({ ...base, type: "complete", duration })
+        break
+      case "failed":
+        this.emit({ ...base, type: "fail", duration, error: task.error })
+        break
+      case "skipped":
+        this.emit({ ...base, type: "skip" })
+        break
+    }
+  }
+
+  /** Send the run summary to the reporter */
+  private reportFinish(): void {
+    if (!this.reporter) return
+
+    const count = (status: TaskStatus) =>
+      [...this.tasks.values()].filter((task) => task.status === status).length
+    const time = Date.now()
+
+    this.emit({
+      type: "finish",
+      time,
+      duration: time - this.startedAt,
+      completed: count("completed"),
+      failed: count("failed"),
+      skipped: count("skipped"),
+    })
+  }
+
+  private emit(event: ProgressEvent): void {
+    // Drop undefined fields so serialized events stay compact
+    for (const key of Object.keys(event) as (keyof ProgressEvent)[]) {
+      if (event[key] === undefined) delete event[key]
+    }
+    this.reporter!.event(event)
+  }
+
+  /** ID of the nearest preceding task with a smaller indent */
+  private findParentId(id: string): string | undefined {
+    const index = this.taskOrder.indexOf(id)
+    const indent = this.tasks.get(id)?.indent ?? 0
+    for (let i = index - 1; i >= 0; i--) {
+      const candidate = this.tasks.get(this.taskOrder[i]!)
+      if (candidate && (candidate.indent ?? 0) < indent) {
+        return candidate.id
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Print one permanent line for each task whose status changed since the
+   * last call. Pending tasks and progress/title-only updates print nothing.
+   */
+  private renderPlain(): void {
+    for (const id of this.taskOrder) {
+      const task = this.tasks.get(id)
+      if (!task || task.status === "pending") continue
+      if (this.printedStatus.get(id) === task.status) continue
+
+      this.printedStatus.set(id, task.status)
+
+      if (this.accessible) {
+        write(`${this.announcement(task)}\n`, this.stream)
+        continue
+      }
+
+      // Running tasks print a start marker (there is no spinner)
+      const icon =
+        task.status === "running"
+          ? colorize(
+              this.theme.icons.started,
+              this.theme.colors.running,
+              this.stream,
+            )
+          : this.statusIcon(task.status)
+      const indent = "  ".repeat(task.indent ?? 0)
+      let line = `${indent}${icon} ${task.title}`
 
-      // Add completion time in dimmed text
       if (task.status === "completed" && task.completionTime !== undefined) {
-        line += chalk.dim(` ${task.completionTime}ms`)
+        line += ` (${task.completionTime}ms)`
       }
 
-      lines.push(line)
+      write(`${line}\n`, this.stream)
     }
+  }
 
-    // Clear and write each line
-    for (const line of lines) {
-      write(`${CLEAR_LINE}${line}\n`, this.stream)
+  /** Sentence for a task's status (accessible mode) */
+  private announcement(task: TaskState): string {
+    // Pending tasks are never printed
+    const status: AnnouncementStatus =
+      task.status === "running"
+        ? "started"
+        : (task.status as AnnouncementStatus)
+    const title =
+      task.status === "failed" && task.error
+        ? `${task.title} (${task.error})`
+        : task.title
+    return formatAnnouncement(
+      status,
+      title,
+      task.status === "completed" ? task.completionTime : undefined,
+    )
+  }
+}
+
+/**
+ * Collapse finished parents to a single row
+ *
+ * A parent is any row followed by more deeply indented rows. It collapses
+ * when it is completed or skipped and none of its descendants are running
+ * or failed.
+ */
+function collapseFinishedGroups(rows: Row[]): Row[] {
+  const result: Row[] = []
+
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i]!
+    const indent = row.task.indent ?? 0
+
+    let end = i + 1
+    while (end < rows.length && (rows[end]!.task.indent ?? 0) > indent) {
+      end++
     }
+    const descendants = rows.slice(i + 1, end)
 
-    this.renderedLines = lines.length
+    const finished =
+      (row.task.status === "completed" || row.task.status === "skipped") &&
+      descendants.every(
+        (d) => d.task.status !== "running" && d.task.status !== "failed",
+      )
+
+    if (descendants.length > 0 && finished) {
+      result.push({ ...row, collapsed: descendants.length })
+      i = end - 1
+    } else {
+      result.push(row)
+    }
   }
+
+  return result
 }
 
 /**
@@ -291,9 +1061,27 @@ class TaskHandle {
     return this
   }
 
-  /** Update progress (for bar type) */
-  update(current: number): this {
-    this.multi._updateTask(this._id, { current })
+  /**
+   * Update progress (drawn for bar type, reported for all types)
+   *
+   * Stacked bar tasks take segment counters (missing ones are kept); the
+   * current value is their sum.
+   */
+  update(current: number | Record<string, number>, total?: number): this {
+    const updates: Partial<TaskState> = {}
+    if (typeof current === "number") {
+      updates.current = current
+    } else {
+      const task = this.multi._getTask(this._id)
+      const counts = { ...task?.counts, ...current }
+      updates.counts = counts
+      updates.current = (task?.segments ?? []).reduce(
+        (sum, { name }) => sum + (counts[name] ?? 0),
+        0,
+      )
+    }
+    if (total !== undefined) updates.total = total
+    this.multi._updateTask(this._id, updates)
     return this
   }
 
@@ -311,10 +1099,16 @@ class TaskHandle {
     return this
   }
 
-  /** Mark task as failed */
-  fail(title?: string): this {
+  /**
+   * Mark task as failed
+   * @param error - Cause, reported as the event's error message
+   */
+  fail(title?: string, error?: unknown): this {
     const updates: Partial<TaskState> = { status: "failed" }
     if (title) updates.title = title
+    if (error !== undefined) {
+      updates.error = error instanceof Error ? error.message : String(error)
+    }
     this.multi._updateTask(this._id, updates)
     return this
   }
@@ -327,6 +1121,21 @@ class TaskHandle {
     return this
   }
 
+  /** Put the task back to pending, e.g. before a retry runs it again */
+  reset(title?: string): this {
+    const updates: Partial<TaskState> = {
+      status: "pending",
+      current: undefined,
+      completionTime: undefined,
+      error: undefined,
+      startedAt: undefined,
+      samples: undefined,
+    }
+    if (title) updates.title = title
+    this.multi._updateTask(this._id, updates)
+    return this
+  }
+
   /** Update task title */
   setTitle(title: string): this {
     this.multi._updateTask(this._id, { title })
@@ -0,0 +1,61 @@
+/**
+ * NDJSON progress reporter - one JSON object per line per progress event
+ */
+
+import { closeSync, openSync, writeSync } from "node:fs"
+import type { ProgressEvent, ProgressReporter } from "../types.js"
+
+/**
+ * Create a reporter that writes each event as a line of JSON
+ *
+ * A file path is opened for appending on the first event and closed on
+ * `stop()` (which MultiProgress calls when it stops); events after that are
+ * dropped. A stream is left open.
+ *
+ * @param target - File path (appended to) or writable stream
+ *
+ * @example
+ * ```ts
+ * // Alongside the TTY display
+ * const multi = new MultiProgress(process.stdout, {
+ *   reporter: createNdjsonReporter("progress.ndjson"),
+ * })
+ *
+ * // Instead of it
+ * await steps({ fetch, parse }).run({
+ *   mode: "silent",
+ *   reporter: createNdjsonReporter(process.stderr),
+ * })
+ * // {"type":"start","id":"task-…","title":"Fetch","time":1700000000000}
+ * // {"type":"complete","id":"task-…","title":"Fetch","duration":120,…}
+ * ```
+ */
+export function createNdjsonReporter(
+  target: string | NodeJS.WritableStream,
+): ProgressReporter {
+  if (typeof target !== "string") {
+    return {
+      event(event: ProgressEvent) {
+        target.write(`${JSON.stringify(event)}\n`)
+      },
+    }
+  }
+
+  let fd: number | undefined
+  let closed = false
+
+  return {
+    event(event: ProgressEvent) {
+      if (closed) return
+      fd ??= openSync(target, "a")
+      writeSync(fd, `${JSON.stringify(event)}\n`)
+    },
+    stop() {
+      closed = true
+      if (fd !== undefined) {
+        closeSync(fd)
+        fd = undefined
+      }
+    },
+  }
+}
@@ -2,27 +2,71 @@
  * CLI ProgressBar - Determinate progress indicator with ETA
  */
 
-import chalk from "chalk"
-import type { ProgressBarOptions } from "../types.js"
+import type {
+  BarStyle,
+  ByteUnits,
+  ProgressBarOptions,
+  ProgressBarTokenContext,
+  Theme,
+} from "../types.js"
 import {
   CURSOR_HIDE,
   CURSOR_SHOW,
   CURSOR_TO_START,
   CLEAR_LINE_END,
+  CLEAR_SCREEN_END,
+  cursorUp,
   write,
   isTTY,
   getTerminalWidth,
+  onResize,
 } from "./ansi.js"
+import { truncate, countRows } from "./text.js"
 import {
-  calculateETA,
+  compileTemplate,
+  type Template,
+  type TemplateValue,
+} from "./template.js"
+import {
+  getETA,
   formatETA,
+  resolveETAStrategy,
   DEFAULT_ETA_BUFFER_SIZE,
   type ETASample,
+  type ETAStrategy,
 } from "../utils/eta.js"
+import {
+  renderBar,
+  renderIndeterminateBar,
+  renderStackedBar,
+  resolveBarStyle,
+  resolveSegments,
+  type ResolvedSegment,
+} from "../utils/bar.js"
+import { formatBytes, formatRate } from "../utils/format.js"
+import {
+  createThrottle,
+  DEFAULT_THROTTLE,
+  type Throttle,
+} from "../utils/throttle.js"
+import { colorize, resolveTheme } from "../utils/theme.js"
+import { getCapabilities, SYNC_START, SYNC_END } from "../utils/capabilities.js"
+import { getAnimationClock, type AnimationClock } from "../utils/clock.js"
+import { formatAnnouncement, isAccessibleMode } from "../utils/accessibility.js"
+import {
+  createTerminalProgress,
+  type TerminalProgress,
+} from "./terminal-progress.js"
 
 /** Default format string */
 const DEFAULT_FORMAT = ":bar :percent | :current/:total | ETA: :eta"
 
+/** Default format while the total is unknown */
+const DEFAULT_INDETERMINATE_FORMAT = ":bar :current | :elapsed | :rate/s"
+
+/** Frame interval for the indeterminate animation (ms) */
+const INDETERMINATE_INTERVAL = 80
+
 /**
  * ProgressBar class for CLI progress indication
  *
@@ -35,35 +79,109 @@ const DEFAULT_FORMAT = ":bar :percent | :current/:total | ETA: :eta"
  *   bar.update(i);
  * }
  * bar.stop();
+ *
+ * // Total not known yet: animates until setTotal()
+ * const scan = new ProgressBar();
+ * scan.start();
+ * scan.update(files.length);
+ * scan.setTotal(await countFiles());
+ *
+ * // Stacked: one colored segment per counter
+ * const batch = new ProgressBar({
+ *   total: jobs.length,
+ *   segments: ["succeeded", "failed", "skipped"],
+ *   format: ":bar :succeeded ok, :failed failed, :skipped skipped",
+ * });
+ * batch.start();
+ * batch.update({ succeeded: 40, failed: 2 });
  * ```
+ *
+ * In accessible mode nothing is redrawn: the bar prints "Started", each
+ * phase, every 25% and "Completed in 1.2s" as lines of their own.
  */
 export class ProgressBar {
-  private total: number
-  private format: string
+  /** Undefined while indeterminate */
+  private total: number | undefined
+  private format: Template
+  private indeterminateFormat: Template
+  private customTokens: Record<
+    string,
+    (context: ProgressBarTokenContext) => string | number
+  >
   private width: number
-  private complete: string
-  private incomplete: string
+  private barStyle: BarStyle
+  private theme: Theme
   private stream: NodeJS.WriteStream
   private hideCursor: boolean
   private phases: Record<string, string>
+  private byteUnits: ByteUnits
+  private etaStrategy: ETAStrategy
+  private etaBufferSize: number
+  /** Stacked bar segments (empty for a single-value bar) */
+  private segments: ResolvedSegment[]
+  private counts: Record<string, number> = {}
+  /** Limits update()/increment() redraws; the latest value is drawn last */
+  private renderThrottle: Throttle
 
   private current = 0
   private phase: string | null = null
   private startTime: number | null = null
   private isActive = false
+  private removeResizeListener: (() => void) | null = null
+  /** Own clock, or undefined for the shared one */
+  private clock: AnimationClock | undefined
+  private stopAnimation: (() => void) | null = null
+  private frameIndex = 0
+  /** Last line and custom tokens rendered (for redraw after a resize) */
+  private lastOutput = ""
+  private lastTokens: Record<string, string | number> | undefined
+  /** Per-call tokens waiting for a throttled render */
+  private pendingTokens: Record<string, string | number> | undefined
+  /** Announce state changes instead of redrawing */
+  private accessible: boolean
+  /** Draw frames as synchronized updates */
+  private synchronized: boolean
+  /** Quarters of the total announced so far (accessible mode) */
+  private announcedQuarters = 0
+  /** Tab/taskbar progress (OSC 9;4), a no-op unless enabled */
+  private terminalProgress: TerminalProgress
+  /** Terminal progress shows the error state */
+  private failed = false
 
   // ETA smoothing - track last N update times
   private etaBuffer: ETASample[] = []
 
   constructor(options: ProgressBarOptions = {}) {
-    this.total = options.total ?? 100
-    this.format = options.format ?? DEFAULT_FORMAT
+    this.total = options.total
+    this.format = compileTemplate(options.format ?? DEFAULT_FORMAT)
+    this.indeterminateFormat = compileTemplate(
+      options.indeterminateFormat ?? DEFAULT_INDETERMINATE_FORMAT,
+    )
+    this.customTokens = options.tokens ?? {}
     this.width = options.width ?? 40
-    this.complete = options.complete ?? "█"
-    this.incomplete = options.incomplete ?? "░"
+    this.theme = resolveTheme(options.theme, options.stream)
+    this.barStyle = resolveBarStyle(options.style ?? this.theme.bar, {
+      fill: options.complete,
+      empty: options.incomplete,
+    })
     this.stream = options.stream ?? process.stdout
     this.hideCursor = options.hideCursor ?? true
     this.phases = options.phases ?? {}
+    this.byteUnits = options.byteUnits ?? "si"
+    this.etaStrategy = resolveETAStrategy(options.etaStrategy)
+    this.etaBufferSize = this.etaStrategy.bufferSize ?? DEFAULT_ETA_BUFFER_SIZE
+    this.segments = resolveSegments(options.segments ?? [])
+    this.clock = options.clock
+    this.accessible = options.accessible ?? isAccessibleMode()
+    this.synchronized = getCapabilities(this.stream).synchronizedOutput
+    this.terminalProgress = createTerminalProgress(
+      this.stream,
+      options.terminalProgress ?? false,
+    )
+    this.renderThrottle = createThrottle(
+      () => this.render(this.pendingTokens),
+      options.throttle ?? DEFAULT_THROTTLE,
+    )
   }
 
   /**
@@ -78,30 +196,59 @@ export class ProgressBar {
     this.startTime = Date.now()
     this.isActive = true
     this.etaBuffer = [{ time: this.startTime, value: initialValue }]
+    this.updateTerminalProgress()
+
+    if (this.accessible) {
+      this.announcedQuarters = this.quarters()
+      this.announce(formatAnnouncement("started", this.phaseDisplay()))
+      return this
+    }
 
     if (this.hideCursor && isTTY(this.stream)) {
       write(CURSOR_HIDE, this.stream)
     }
 
+    this.removeResizeListener?.()
+    this.removeResizeListener = onResize(this.stream, () => this.redraw())
+
     this.render()
+    this.updateAnimation()
     return this
   }
 
   /**
    * Update progress value
+   *
+   * Stacked bars take segment counters instead (missing ones are kept); the
+   * value is their sum.
    */
-  update(value: number, tokens?: Record<string, string | number>): this {
-    this.current = Math.min(value, this.total)
+  update(
+    value: number | Record<string, number>,
+    tokens?: Record<string, string | number>,
+  ): this {
+    if (typeof value !== "number") {
+      Object.assign(this.counts, value)
+      value = this.segments.reduce(
+        (sum, { name }) => sum + (this.counts[name] ?? 0),
+        0,
+      )
+    }
+    this.current =
+      this.total === undefined ? value : Math.min(value, this.total)
 
     // Update ETA buffer
     const now = Date.now()
     this.etaBuffer.push({ time: now, value: this.current })
-    if (this.etaBuffer.length > DEFAULT_ETA_BUFFER_SIZE) {
+    if (this.etaBuffer.length > this.etaBufferSize) {
       this.etaBuffer.shift()
     }
 
-    if (this.isActive) {
-      this.render(tokens)
+    this.updateTerminalProgress()
+    if (this.isActive && this.accessible) {
+      this.announceQuarters()
+    } else if (this.isActive) {
+      this.pendingTokens = tokens
+      this.renderThrottle.schedule()
     }
 
     return this
@@ -114,6 +261,30 @@ export class ProgressBar {
     return this.update(this.current + amount, tokens)
   }
 
+  /**
+   * Set the total, switching an indeterminate bar to a normal one
+   */
+  setTotal(total: number): this {
+    this.total = total
+    this.current = Math.min(this.current, total)
+    this.updateTerminalProgress()
+
+    if (this.isActive && this.accessible) {
+      this.announceQuarters()
+    } else if (this.isActive) {
+      this.renderThrottle.cancel()
+      this.updateAnimation()
+      this.render(this.pendingTokens ?? this.lastTokens)
+    }
+
+    return this
+  }
+
+  /** True while the total is unknown */
+  get indeterminate(): boolean {
+    return this.total === undefined
+  }
+
   /**
    * Set the current phase (for multi-phase progress)
    */
@@ -131,14 +302,30 @@ export class ProgressBar {
       // Reset ETA buffer on phase change
       this.etaBuffer = [{ time: Date.now(), value: this.current }]
     }
-
-    if (this.isActive) {
+    this.updateTerminalProgress()
+
+    if (this.isActive && this.accessible) {
+      this.announcedQuarters = this.quarters()
+      this.announce(formatAnnouncement("started", this.phaseDisplay()))
+    } else if (this.isActive) {
+      this.renderThrottle.cancel()
+      this.updateAnimation()
       this.render()
     }
 
     return this
   }
 
+  /**
+   * Show the terminal progress in its error state (red), e.g. after an item
+   * failed, until `setFailed(false)` or stop()
+   */
+  setFailed(failed = true): this {
+    this.failed = failed
+    this.updateTerminalProgress()
+    return this
+  }
+
   /**
    * Stop the progress bar
    */
@@ -147,7 +334,28 @@ export class ProgressBar {
       return this
     }
 
+    this.terminalProgress.clear()
+
+    if (this.accessible) {
+      this.isActive = false
+      const finished = this.total === undefined || this.current >= this.total
+      this.announce(
+        finished
+          ? formatAnnouncement("completed", undefined, this.elapsedMs())
+          : `Stopped at ${this.percentage}%`,
+      )
+      return this
+    }
+
+    // Draw the final value before leaving the line
+    this.renderThrottle.flush()
     this.isActive = false
+    this.updateAnimation()
+
+    if (this.removeResizeListener) {
+      this.removeResizeListener()
+      this.removeResizeListener = null
+    }
 
     if (clear && isTTY(this.stream)) {
       write(`${CURSOR_TO_START}${CLEAR_LINE_END}`, this.stream)
@@ -162,68 +370,191 @@ export class ProgressBar {
     return this
   }
 
-  /** Get ETA in seconds using smoothed rate */
-  private getETASeconds(): number | null {
-    return calculateETA(this.etaBuffer, this.current, this.total)
+  /** Mirror the state in the terminal's tab or taskbar while active */
+  private updateTerminalProgress(): void {
+    if (!this.isActive) return
+    const state = this.failed
+      ? "error"
+      : this.total === undefined
+        ? "indeterminate"
+        : "normal"
+    this.terminalProgress.set(state, this.ratio)
+  }
+
+  /** Write one announcement line (accessible mode) */
+  private announce(sentence: string): void {
+    write(`${sentence}\n`, this.stream)
+  }
+
+  /** Announce each quarter of the total passed since the last one */
+  private announceQuarters(): void {
+    const quarters = this.quarters()
+    if (quarters > this.announcedQuarters && quarters < 4) {
+      this.announce(`${quarters * 25}% complete`)
+    }
+    this.announcedQuarters = Math.max(this.announcedQuarters, quarters)
+  }
+
+  /** Whole quarters of the total reached (0 while indeterminate) */
+  private quarters(): number {
+    return this.total ? Math.floor((this.current / this.total) * 4) : 0
+  }
+
+  /** Display name of the current phase ("" when there is none) */
+  private phaseDisplay(): string {
+    return this.phase ? (this.phases[this.phase] ?? this.phase) : ""
+  }
+
+  /** Ms since start() */
+  private elapsedMs(): number {
+    return this.startTime ? Date.now() - this.startTime : 0
+  }
+
+  /** Get the formatted ETA from the strategy's smoothed rate */
+  private getETAText(): string {
+    if (this.total === undefined) return formatETA(null)
+    return getETA(this.etaBuffer, this.current, this.total, this.etaStrategy)
+      .formatted
+  }
+
+  /**
+   * Run the bouncing animation while active and indeterminate, stop it
+   * otherwise
+   */
+  private updateAnimation(): void {
+    const animate =
+      this.isActive && this.total === undefined && isTTY(this.stream)
+
+    if (animate && !this.stopAnimation) {
+      const clock = this.clock ?? getAnimationClock()
+      this.stopAnimation = clock.subscribe(INDETERMINATE_INTERVAL, () => {
+        const frame = Math.floor(clock.now() / INDETERMINATE_INTERVAL)
+        if (frame !== this.frameIndex) {
+          this.frameIndex = frame
+          this.render(this.lastTokens)
+        }
+      })
+    } else if (!animate && this.stopAnimation) {
+      this.stopAnimation()
+      this.stopAnimation = null
+    }
   }
 
   /**
    * Render the progress bar
    */
   private render(tokens?: Record<string, string | number>): void {
-    const percent = this.total > 0 ? this.current / this.total : 0
-    const eta = this.getETASeconds()
+    const total = this.total ?? 0
+    const percent = total > 0 ? this.current / total : 0
 
     // Build the bar
-    const completeLength = Math.round(this.width * percent)
-    const incompleteLength = this.width - completeLength
-    const bar =
-      this.complete.repeat(completeLength) +
-      this.incomplete.repeat(incompleteLength)
+    let bar: string
+    if (this.total === undefined) {
+      bar = colorize(
+        renderIndeterminateBar(this.frameIndex, this.width, this.barStyle),
+        this.theme.colors.bar,
+        this.stream,
+      )
+    } else if (this.segments.length > 0) {
+      const { segments, empty } = renderStackedBar(
+        this.segments.map(({ name }) => this.counts[name] ?? 0),
+        total,
+        this.width,
+        this.barStyle,
+      )
+      bar =
+        segments
+          .map((part, i) =>
+            colorize(part, this.segments[i]!.color, this.stream),
+          )
+          .join("") + colorize(empty, this.theme.colors.barEmpty, this.stream)
+    } else {
+      const { filled, empty } = renderBar(percent, this.width, this.barStyle)
+      bar =
+        colorize(filled, this.theme.colors.bar, this.stream) +
+        colorize(empty, this.theme.colors.barEmpty, this.stream)
+    }
 
-    // Get phase display name
-    const phaseDisplay = this.phase
-      ? (this.phases[this.phase] ?? this.phase)
-      : ""
+    const phaseDisplay = this.phaseDisplay()
 
     // Calculate rate
-    const elapsed = this.startTime ? (Date.now() - this.startTime) / 1000 : 0
+    const elapsed = this.elapsedMs() / 1000
     const rate = elapsed > 0 ? this.current / elapsed : 0
 
-    // Replace tokens in format string
-    let output = this.format
-      .replace(":bar", chalk.cyan(bar))
-      .replace(":percent", `${Math.round(percent * 100)}%`.padStart(4))
-      .replace(":current", String(this.current))
-      .replace(":total", String(this.total))
-      .replace(":eta", formatETA(eta))
-      .replace(":elapsed", formatETA(elapsed))
-      .replace(":rate", rate.toFixed(1))
-      .replace(":phase", chalk.dim(phaseDisplay))
-
-    // Replace custom tokens
-    if (tokens) {
-      for (const [key, value] of Object.entries(tokens)) {
-        output = output.replace(`:${key}`, String(value))
-      }
+    const context: ProgressBarTokenContext = {
+      current: this.current,
+      total: this.total,
+      ratio: percent,
+      elapsed,
+      phase: this.phase,
     }
 
-    // Truncate to terminal width
-    const termWidth = getTerminalWidth(this.stream)
-    if (output.length > termWidth) {
-      output = output.slice(0, termWidth - 1)
+    // Built-ins are computed lazily - only tokens in the format are evaluated
+    const values: Record<string, TemplateValue> = {
+      bar,
+      percent: () => `${Math.round(percent * 100)}%`.padStart(4),
+      current: this.current,
+      total,
+      bytes: () => formatBytes(this.current, this.byteUnits),
+      totalBytes: () => formatBytes(total, this.byteUnits),
+      // Smoothed throughput over the recent updates (same estimate as the ETA)
+      speed: () =>
+        formatRate(
+          this.etaStrategy.estimate(this.etaBuffer)?.rate ?? null,
+          "bytes",
+          this.byteUnits,
+        ),
+      eta: () => this.getETAText(),
+      elapsed: () => formatETA(elapsed),
+      rate: () => rate.toFixed(1),
+      phase: () => colorize(phaseDisplay, "dim", this.stream),
+    }
+    for (const { name } of this.segments) {
+      const count = this.counts[name] ?? 0
+      values[name] = count
+      values[`${name}Percent`] = () =>
+        `${total > 0 ? Math.round((count / total) * 100) : 0}%`
     }
+    for (const [name, token] of Object.entries(this.customTokens)) {
+      values[name] = () => token(context)
+    }
+    Object.assign(values, tokens)
+
+    const format =
+      this.total === undefined ? this.indeterminateFormat : this.format
+    // Truncate to terminal width (display width, escape codes kept intact)
+    const output = truncate(
+      format.render(values),
+      getTerminalWidth(this.stream) - 1,
+    )
 
     if (isTTY(this.stream)) {
-      write(`${CURSOR_TO_START}${output}${CLEAR_LINE_END}`, this.stream)
+      const update = `${CURSOR_TO_START}${output}${CLEAR_LINE_END}`
+      write(
+        this.synchronized ? `${SYNC_START}${update}${SYNC_END}` : update,
+        this.stream,
+      )
+      this.lastOutput = output
+      this.lastTokens = tokens
     }
   }
 
+  /**
+   * Redraw after a terminal resize, clearing rows the old line reflowed onto
+   */
+  private redraw(): void {
+    if (!this.isActive) return
+    const rows = countRows(this.lastOutput, getTerminalWidth(this.stream))
+    const up = rows > 1 ? cursorUp(rows - 1) : ""
+    write(`${up}${CURSOR_TO_START}${CLEAR_SCREEN_END}`, this.stream)
+    this.render(this.lastTokens)
+  }
+
   /**
    * Get current progress ratio (0-1)
    */
   get ratio(): number {
-    return this.total > 0 ? this.current / this.total : 0
+    return this.total ? this.current / this.total : 0
   }
 
   /**
@@ -2,38 +2,158 @@
  * CLI Spinner - Animated indeterminate progress indicator
  */
 
-import chalk from "chalk"
-import type { SpinnerOptions, SpinnerStyle } from "../types.js"
+import type {
+  BuiltinSpinnerStyle,
+  SpinnerDefinition,
+  SpinnerOptions,
+  SpinnerStyle,
+  Theme,
+} from "../types.js"
 import {
   CURSOR_HIDE,
   CURSOR_SHOW,
   CURSOR_TO_START,
   CLEAR_LINE_END,
+  CLEAR_SCREEN_END,
+  cursorUp,
   write,
   isTTY,
+  getTerminalWidth,
+  onResize,
 } from "./ansi.js"
+import { patchConsole } from "./console-patch.js"
+import { truncate, countRows } from "./text.js"
+import { colorize, resolveTheme } from "../utils/theme.js"
+import { getCapabilities, SYNC_START, SYNC_END } from "../utils/capabilities.js"
+import {
+  frameAt,
+  getAnimationClock,
+  type AnimationClock,
+} from "../utils/clock.js"
+import {
+  formatAnnouncement,
+  isAccessibleMode,
+  type AnnouncementStatus,
+} from "../utils/accessibility.js"
 
 /** Spinner animation frames by style */
-export const SPINNER_FRAMES: Record<SpinnerStyle, string[]> = {
+export const SPINNER_FRAMES: Record<BuiltinSpinnerStyle, string[]> = {
   dots: ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"],
   line: ["-", "\\", "|", "/"],
   arc: ["◜", "◠", "◝", "◞", "◡", "◟"],
   bounce: ["⠁", "⠂", "⠄", "⠂"],
   pulse: ["█", "▓", "▒", "░", "▒", "▓"],
+  clock: [
+    "🕛",
+    "🕐",
+    "🕑",
+    "🕒",
+    "🕓",
+    "🕔",
+    "🕕",
+    "🕖",
+    "🕗",
+    "🕘",
+    "🕙",
+    "🕚",
+  ],
+  moon: ["🌑", "🌒", "🌓", "🌔", "🌕", "🌖", "🌗", "🌘"],
+  growVertical: ["▁", "▃", "▄", "▅", "▆", "▇", "▆", "▅", "▄", "▃"],
+  growHorizontal: ["▏", "▎", "▍", "▌", "▋", "▊", "▉", "▊", "▋", "▌", "▍", "▎"],
+  simpleDots: [".  ", ".. ", "...", "   "],
 }
 
 /** Default intervals for each style (ms) */
-export const SPINNER_INTERVALS: Record<SpinnerStyle, number> = {
+export const SPINNER_INTERVALS: Record<BuiltinSpinnerStyle, number> = {
   dots: 80,
   line: 120,
   arc: 100,
   bounce: 120,
   pulse: 100,
+  clock: 100,
+  moon: 80,
+  growVertical: 120,
+  growHorizontal: 120,
+  simpleDots: 400,
+}
+
+/** Spinners added with registerSpinner(), by name */
+const customSpinners = new Map<string, SpinnerDefinition>()
+
+/**
+ * Add a named spinner usable wherever a spinner style is accepted
+ *
+ * A name matching a built-in style replaces it.
+ *
+ * @example
+ * ```ts
+ * registerSpinner("toggle", { frames: ["⊶", "⊷"], interval: 250 })
+ * new Spinner({ text: "Syncing", style: "toggle" })
+ * ```
+ */
+export function registerSpinner(
+  name: string,
+  definition: SpinnerDefinition,
+): void {
+  if (definition.frames.length === 0) {
+    throw new Error(`Spinner "${name}" has no frames`)
+  }
+  if (!(definition.interval > 0)) {
+    throw new Error(`Spinner "${name}" needs a positive interval`)
+  }
+  customSpinners.set(name, {
+    frames: [...definition.frames],
+    interval: definition.interval,
+  })
+}
+
+/**
+ * Add every spinner from a cli-spinners style JSON object
+ *
+ * @example
+ * ```ts
+ * import spinners from "cli-spinners/spinners.json" with { type: "json" }
+ * registerSpinners(spinners)
+ * new Spinner({ style: "aesthetic" })
+ * ```
+ */
+export function registerSpinners(
+  definitions: Record<string, SpinnerDefinition>,
+): void {
+  for (const [name, definition] of Object.entries(definitions)) {
+    registerSpinner(name, definition)
+  }
+}
+
+/**
+ * Look up a spinner's frames and interval
+ *
+ * @throws If the name is neither built in nor registered
+ */
+export function resolveSpinner(
+  style: SpinnerStyle | SpinnerDefinition,
+): SpinnerDefinition {
+  if (typeof style !== "string") {
+    return style
+  }
+
+  const custom = customSpinners.get(style)
+  if (custom) {
+    return custom
+  }
+  if (Object.hasOwn(SPINNER_FRAMES, style)) {
+    const name = style as BuiltinSpinnerStyle
+    return { frames: SPINNER_FRAMES[name], interval: SPINNER_INTERVALS[name] }
+  }
+  throw new Error(`Unknown spinner style "${style}"`)
 }
 
 /**
  * Spinner class for CLI progress indication
  *
+ * In accessible mode the spinner does not animate: it prints "Started: …"
+ * once, each new text on its own line, and the result as a sentence.
+ *
  * @example
  * ```ts
  * const spinner = new Spinner("Loading...");
@@ -44,15 +164,28 @@ export const SPINNER_INTERVALS: Record<SpinnerStyle, number> = {
  */
 export class Spinner {
   private text: string
-  private style: SpinnerStyle
+  private frames: string[]
   private color: string
+  private theme: Theme
   private stream: NodeJS.WriteStream
   private hideCursor: boolean
   private interval: number
-
+  private shouldPatchConsole: boolean
+  private restoreConsole: (() => void) | null = null
+  private removeResizeListener: (() => void) | null = null
+  /** Last line written (to clear it correctly after a resize) */
+  private lastOutput = ""
+
+  /** Own clock, or undefined for the shared one */
+  private clock: AnimationClock | undefined
   private frameIndex = 0
-  private timer: ReturnType<typeof setInterval> | null = null
+  private stopAnimation: (() => void) | null = null
   private isSpinning = false
+  /** Announce state changes instead of animating */
+  private accessible: boolean
+  /** Draw frames as synchronized updates */
+  private synchronized: boolean
+  private startedAt = 0
 
   constructor(textOrOptions?: string | SpinnerOptions) {
     const options: SpinnerOptions =
@@ -60,12 +193,18 @@ export class Spinner {
         ? { text: textOrOptions }
         : (textOrOptions ?? {})
 
+    this.theme = resolveTheme(options.theme, options.stream)
     this.text = options.text ?? ""
-    this.style = options.style ?? "dots"
-    this.color = options.color ?? "cyan"
+    const spinner = resolveSpinner(options.style ?? this.theme.spinner)
+    this.frames = spinner.frames
+    this.color = options.color ?? this.theme.colors.running
     this.stream = options.stream ?? process.stdout
     this.hideCursor = options.hideCursor ?? true
-    this.interval = options.interval ?? SPINNER_INTERVALS[this.style]
+    this.interval = options.interval ?? spinner.interval
+    this.clock = options.clock
+    this.shouldPatchConsole = options.patchConsole ?? false
+    this.accessible = options.accessible ?? isAccessibleMode()
+    this.synchronized = getCapabilities(this.stream).synchronizedOutput
   }
 
   /** Get current spinner text */
@@ -75,8 +214,11 @@ export class Spinner {
 
   /** Set spinner text (updates immediately if spinning) */
   set currentText(value: string) {
+    const changed = value !== this.text
     this.text = value
-    if (this.isSpinning) {
+    if (this.isSpinning && this.accessible) {
+      if (changed && value) write(`${value}\n`, this.stream)
+    } else if (this.isSpinning) {
       this.render()
     }
   }
@@ -99,18 +241,39 @@ export class Spinner {
     }
 
     this.isSpinning = true
-    this.frameIndex = 0
+    this.startedAt = Date.now()
+
+    if (this.accessible) {
+      if (this.shouldPatchConsole) {
+        this.restoreConsole = patchConsole((text) => this.log(text))
+      }
+      write(`${formatAnnouncement("started", this.text)}\n`, this.stream)
+      return this
+    }
+
+    const clock = this.clock ?? getAnimationClock()
+    const currentFrame = () =>
+      frameAt(clock.now(), this.frames.length, this.interval)
+    this.frameIndex = currentFrame()
 
     if (this.hideCursor && isTTY(this.stream)) {
       write(CURSOR_HIDE, this.stream)
     }
 
+    if (this.shouldPatchConsole) {
+      this.restoreConsole = patchConsole((text) => this.log(text))
+    }
+
+    this.removeResizeListener = onResize(this.stream, () => this.redraw())
+
     this.render()
-    this.timer = setInterval(() => {
-      this.frameIndex =
-        (this.frameIndex + 1) % SPINNER_FRAMES[this.style].length
-      this.render()
-    }, this.interval)
+    this.stopAnimation = clock.subscribe(this.interval, () => {
+      const frame = currentFrame()
+      if (frame !== this.frameIndex) {
+        this.frameIndex = frame
+        this.render()
+      }
+    })
 
     return this
   }
@@ -125,9 +288,23 @@ export class Spinner {
 
     this.isSpinning = false
 
-    if (this.timer) {
-      clearInterval(this.timer)
-      this.timer = null
+    if (this.stopAnimation) {
+      this.stopAnimation()
+      this.stopAnimation = null
+    }
+
+    if (this.restoreConsole) {
+      this.restoreConsole()
+      this.restoreConsole = null
+    }
+
+    if (this.removeResizeListener) {
+      this.removeResizeListener()
+      this.removeResizeListener = null
+    }
+
+    if (this.accessible) {
+      return this
     }
 
     this.clear()
@@ -140,31 +317,56 @@ export class Spinner {
   }
 
   /**
-   * Stop with success message (green checkmark)
+   * Stop with success message (theme's completed icon, green checkmark by
+   * default)
    */
   succeed(text?: string): this {
-    return this.stopWithSymbol(chalk.green("✔"), text ?? this.text)
+    return this.stopWithStatus("completed", text)
   }
 
   /**
-   * Stop with failure message (red X)
+   * Stop with failure message (red X by default)
    */
   fail(text?: string): this {
-    return this.stopWithSymbol(chalk.red("✖"), text ?? this.text)
+    return this.stopWithStatus("failed", text)
   }
 
   /**
-   * Stop with warning message (yellow warning)
+   * Stop with warning message (yellow warning by default)
    */
   warn(text?: string): this {
-    return this.stopWithSymbol(chalk.yellow("⚠"), text ?? this.text)
+    return this.stopWithStatus("warning", text)
   }
 
   /**
-   * Stop with info message (blue info)
+   * Stop with info message (blue info by default)
    */
   info(text?: string): this {
-    return this.stopWithSymbol(chalk.blue("ℹ"), text ?? this.text)
+    return this.stopWithStatus("info", text)
+  }
+
+  /**
+   * Print a permanent message above the spinner
+   *
+   * Clears the spinner line, writes the message, and redraws the spinner
+   * below it.
+   *
+   * @example
+   * ```ts
+   * spinner.log("Skipped 3 cached files")
+   * ```
+   */
+  log(message: string): this {
+    const text = message.endsWith("\n") ? message : `${message}\n`
+
+    if (this.isSpinning && !this.accessible && isTTY(this.stream)) {
+      write(`${CURSOR_TO_START}${CLEAR_LINE_END}${text}`, this.stream)
+      this.render()
+    } else {
+      write(text, this.stream)
+    }
+
+    return this
   }
 
   /**
@@ -178,18 +380,61 @@ export class Spinner {
   }
 
   private render(): void {
-    const frame = SPINNER_FRAMES[this.style][this.frameIndex]
-    const colorFn = (chalk as unknown as Record<string, (s: string) => string>)[
-      this.color
-    ]
-    const coloredFrame = colorFn ? colorFn(frame!) : frame!
-    const output = this.text ? `${coloredFrame} ${this.text}` : coloredFrame
+    const frame = this.frames[this.frameIndex]
+    const coloredFrame = colorize(frame!, this.color, this.stream)
+    const line = this.text ? `${coloredFrame} ${this.text}` : coloredFrame
+    const output = truncate(line, getTerminalWidth(this.stream) - 1)
 
     if (isTTY(this.stream)) {
-      write(`${CURSOR_TO_START}${output}${CLEAR_LINE_END}`, this.stream)
+      const update = `${CURSOR_TO_START}${output}${CLEAR_LINE_END}`
+      write(
+        this.synchronized ? `${SYNC_START}${update}${SYNC_END}` : update,
+        this.stream,
+      )
+      this.lastOutput = output
     }
   }
 
+  /**
+   * Redraw after a terminal resize, clearing rows the old line reflowed onto
+   */
+  private redraw(): void {
+    const rows = countRows(this.lastOutput, getTerminalWidth(this.stream))
+    const up = rows > 1 ? cursorUp(rows - 1) : ""
+    write(`${up}${CURSOR_TO_START}${CLEAR_SCREEN_END}`, this.stream)
+    this.render()
+  }
+
+  /**
+   * Stop with the theme's icon and color for a result, or announce it (with
+   * the time taken for completed and failed)
+   */
+  private stopWithStatus(
+    status: Extract<
+      AnnouncementStatus,
+      "completed" | "failed" | "warning" | "info"
+    >,
+    text?: string,
+  ): this {
+    if (this.accessible) {
+      const duration =
+        this.isSpinning && (status === "completed" || status === "failed")
+          ? Date.now() - this.startedAt
+          : undefined
+      this.stop()
+      const sentence = formatAnnouncement(status, text ?? this.text, duration)
+      write(`${sentence}\n`, this.stream)
+      return this
+    }
+
+    const symbol = colorize(
+      this.theme.icons[status],
+      this.theme.colors[status],
+      this.stream,
+    )
+    return this.stopWithSymbol(symbol, text ?? this.text)
+  }
+
   private stopWithSymbol(symbol: string, text: string): this {
     this.stop()
     write(`${symbol} ${text}\n`, this.stream)
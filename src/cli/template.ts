@@ -0,0 +1,176 @@
+/**
+ * Format-string templates for progress lines
+ *
+ * Syntax:
+ * - `:name` - token; the longest name wins, so `:totalBytes` is never read
+ *   as `:total` followed by "Bytes"
+ * - `:name{width}` / `:name{width,align}` - pad to at least `width` columns,
+ *   aligned `left` (default), `right` or `center`
+ * - `\:` and `\\` - a literal colon or backslash
+ *
+ * Unknown tokens are left as written, so text such as "12:30" survives.
+ * Padding uses display width, so colored and wide values line up.
+ */
+
+import { stringWidth } from "./text.js"
+
+/** Value for a token: a string or number, or a function computing one */
+export type TemplateValue = string | number | (() => string | number)
+
+/** Alignment within a token's width */
+export type TemplateAlign = "left" | "right" | "center"
+
+/** A parsed piece of a template */
+type Part =
+  | { kind: "text"; text: string }
+  | {
+      kind: "token"
+      name: string
+      /** Original source, printed when the token has no value */
+      source: string
+      width?: number
+      align: TemplateAlign
+    }
+
+/** Token name, optionally followed by `{width}` or `{width,align}` */
+const TOKEN_PATTERN =
+  /^:([A-Za-z_][A-Za-z0-9_]*)(?:\{(\d+)(?:,\s*(left|right|center))?\})?/
+
+/**
+ * A compiled template, ready to render many times
+ */
+export interface Template {
+  /** Token names used by the template, in order */
+  readonly tokens: readonly string[]
+  /** Render with the given values (functions are only called if used) */
+  render(values: Record<string, TemplateValue | undefined>): string
+}
+
+/**
+ * Compile a format string
+ *
+ * @example
+ * ```ts
+ * const template = compileTemplate("[:bar] :percent{4,right} :current/:total")
+ * template.render({ bar: "████░░░░", percent: "50%", current: 5, total: 10 })
+ * // "[████░░░░]  50% 5/10"
+ * ```
+ */
+export function compileTemplate(format: string): Template {
+  const parts = parseTemplate(format)
+  const tokens = parts.flatMap((part) =>
+    part.kind === "token" ? [part.name] : [],
+  )
+
+  return {
+    tokens,
+    render(values) {
+      let output = ""
+      for (const part of parts) {
+        if (part.kind === "text") {
+          output += part.text
+          continue
+        }
+
+        const value = values[part.name]
+        if (value === undefined) {
+          output += part.source
+          continue
+        }
+
+        const text = String(typeof value === "function" ? value() : value)
+        output += part.width ? pad(text, part.width, part.align) : text
+      }
+      return output
+    },
+  }
+}
+
+/**
+ * Render a format string once
+ *
+ * @example
+ * ```ts
+ * renderTemplate(":current/:total files", { current: 3, total: 12 })
+ * // "3/12 files"
+ * ```
+ */
+export function renderTemplate(
+  format: string,
+  values: Record<string, TemplateValue | undefined>,
+): string {
+  return compileTemplate(format).render(values)
+}
+
+/**
+ * Escape text so it is printed literally inside a template
+ *
+ * @example
+ * ```ts
+ * const format = `${escapeTemplate("Step 1: build")} [:bar]`
+ * ```
+ */
+export function escapeTemplate(text: string): string {
+  return text.replace(/[\\:]/g, "\\$&")
+}
+
+/**
+ * Split a format string into text and token parts
+ */
+function parseTemplate(format: string): Part[] {
+  const parts: Part[] = []
+  let text = ""
+  let i = 0
+
+  while (i < format.length) {
+    const char = format[i]!
+
+    if (char === "\\" && (format[i + 1] === ":" || format[i + 1] === "\\")) {
+      text += format[i + 1]
+      i += 2
+      continue
+    }
+
+    if (char === ":") {
+      const match = TOKEN_PATTERN.exec(format.slice(i))
+      if (match) {
+        if (text) parts.push({ kind: "text", text })
+        text = ""
+        parts.push({
+          kind: "token",
+          name: match[1]!,
+          source: match[0],
+          width: match[2] ? Number(match[2]) : undefined,
+          align: (match[3] as TemplateAlign | undefined) ?? "left",
+        })
+        i += match[0].length
+        continue
+      }
+    }
+
+    text += char
+    i++
+  }
+
+  if (text) parts.push({ kind: "text", text })
+  return parts
+}
+
+/**
+ * Pad text to a display width
+ */
+function pad(text: string, width: number, align: TemplateAlign): string {
+  const space = width - stringWidth(text)
+  if (space <= 0) return text
+
+  switch (align) {
+    case "right":
+      return " ".repeat(space) + text
+    case "center": {
+      const left = Math.floor(space / 2)
+      return " ".repeat(left) + text + " ".repeat(space - left)
+    }
+    default:
+      return text + " ".repeat(space)
+  }
+}
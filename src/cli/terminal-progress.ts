@@ -0,0 +1,95 @@
+/**
+ * Terminal progress (OSC 9;4) - native tab and taskbar progress
+ *
+ * Windows Terminal, ConEmu, WezTerm and Ghostty show a progress indicator
+ * on the tab or taskbar for `ESC ] 9 ; 4 ; state ; percent BEL`, so a long
+ * build stays visible when its tab isn't focused. Other terminals ignore
+ * the sequence.
+ */
+
+import { write } from "./ansi.js"
+import { getCapabilities } from "../utils/capabilities.js"
+
+/** States a terminal progress indicator can show */
+export type TerminalProgressState =
+  "normal" | "error" | "indeterminate" | "warning"
+
+/** OSC 9;4 state codes (0 removes the indicator) */
+const STATE_CODES: Record<TerminalProgressState | "clear", number> = {
+  clear: 0,
+  normal: 1,
+  error: 2,
+  indeterminate: 3,
+  warning: 4,
+}
+
+/**
+ * OSC 9;4 sequence for a state and a ratio from 0 to 1
+ *
+ * @example
+ * ```ts
+ * terminalProgressSequence("normal", 0.42) // "\x1b]9;4;1;42\x07"
+ * terminalProgressSequence("clear")        // "\x1b]9;4;0;0\x07"
+ * ```
+ */
+export function terminalProgressSequence(
+  state: TerminalProgressState | "clear",
+  ratio = 0,
+): string {
+  const percent = Math.round(Math.min(1, Math.max(0, ratio)) * 100)
+  return `\x1b]9;4;${STATE_CODES[state]};${percent}\x07`
+}
+
+/** Writes terminal progress to a stream */
+export interface TerminalProgress {
+  /** Anything is written (enabled, on a TTY, outside CI) */
+  readonly active: boolean
+  /** Show a state and ratio (written only when the visible value changes) */
+  set(state: TerminalProgressState, ratio?: number): void
+  /** Remove the indicator (if one is shown) */
+  clear(): void
+}
+
+/**
+ * Create a terminal progress writer for a stream
+ *
+ * Writes nothing when disabled, when the stream is not a TTY or under CI
+ * (where logs would show the raw sequence), and skips updates that would
+ * show the same state and percent again.
+ *
+ * @example
+ * ```ts
+ * const progress = createTerminalProgress(process.stdout)
+ * progress.set("normal", done / total)
+ * progress.set("error", done / total)
+ * progress.clear()
+ * ```
+ */
+export function createTerminalProgress(
+  stream: NodeJS.WriteStream,
+  enabled = true,
+): TerminalProgress {
+  const { tty, ci } = getCapabilities(stream)
+  const active = enabled && tty && !ci
+  let shown = ""
+
+  const show = (sequence: string) => {
+    if (active && sequence !== shown) {
+      write(sequence, stream)
+      shown = sequence
+    }
+  }
+
+  return {
+    active,
+    set(state, ratio) {
+      show(terminalProgressSequence(state, ratio))
+    },
+    clear() {
+      if (shown) {
+        show(terminalProgressSequence("clear"))
+        shown = ""
+      }
+    },
+  }
+}
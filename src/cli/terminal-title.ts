@@ -0,0 +1,111 @@
+/**
+ * Terminal title (OSC 0) - progress in the window or tab title
+ *
+ * The title the user had is saved on the terminal's title stack
+ * (`CSI 22 t`) before the first change and popped back (`CSI 23 t`) on
+ * restore and on process exit. Terminals without a title stack fall back to
+ * their default title.
+ */
+
+import { write } from "./ansi.js"
+import { getCapabilities } from "../utils/capabilities.js"
+import { stripAnsi } from "./text.js"
+
+/** Save the current title on the terminal's title stack */
+export const TITLE_PUSH = "\x1b[22;0t"
+
+/** Restore the title saved with `TITLE_PUSH` */
+export const TITLE_POP = "\x1b[23;0t"
+
+/**
+ * OSC 0 sequence setting the window and tab title (styles and control
+ * characters removed)
+ *
+ * @example
+ * ```ts
+ * titleSequence("km sync") // "\x1b]0;km sync\x07"
+ * ```
+ */
+export function titleSequence(title: string): string {
+  return `\x1b]0;${stripAnsi(title).replace(/[\x00-\x1f\x7f]/g, "")}\x07`
+}
+
+/**
+ * Title showing overall progress, the current step and the program
+ *
+ * @example
+ * ```ts
+ * formatProgressTitle(0.42, "Parsing markdown", "km sync") // "[42%] Parsing markdown — km sync"
+ * formatProgressTitle(1, undefined, "km sync")             // "[100%] km sync"
+ * ```
+ */
+export function formatProgressTitle(
+  ratio: number,
+  label?: string,
+  name?: string,
+): string {
+  const percent = Math.floor(Math.min(1, Math.max(0, ratio)) * 100)
+  let title = `[${percent}%]`
+  if (label) title += ` ${label}`
+  if (name) title += label ? ` — ${name}` : ` ${name}`
+  return title
+}
+
+/** Sets and restores the terminal title */
+export interface TerminalTitle {
+  /** Anything is written (enabled, on a TTY, outside CI) */
+  readonly active: boolean
+  /** Show a title (written only when it changes) */
+  set(title: string): void
+  /** Put back the title from before the first `set()` */
+  restore(): void
+}
+
+/**
+ * Create a title writer for a stream
+ *
+ * Writes nothing when disabled, when the stream is not a TTY or under CI.
+ * While a title is shown, an exit handler restores the original one.
+ * Signals end the process without `exit`: restore from your own handler
+ * (MultiProgress does this for its `windowTitle`).
+ *
+ * @example
+ * ```ts
+ * const title = createTerminalTitle(process.stdout)
+ * title.set(formatProgressTitle(done / total, "Parsing markdown", "km sync"))
+ * title.restore()
+ * ```
+ */
+export function createTerminalTitle(
+  stream: NodeJS.WriteStream,
+  enabled = true,
+): TerminalTitle {
+  const { tty, ci } = getCapabilities(stream)
+  const active = enabled && tty && !ci
+  let shown = ""
+
+  const onExit = () => restore()
+
+  function restore() {
+    if (!shown) return
+    // Empty title first, for terminals without a title stack
+    write(titleSequence("") + TITLE_POP, stream)
+    shown = ""
+    process.off("exit", onExit)
+  }
+
+  return {
+    active,
+    set(title) {
+      const sequence = titleSequence(title)
+      if (!active || sequence === shown) return
+      if (!shown) {
+        write(TITLE_PUSH, stream)
+        process.on("exit", onExit)
+      }
+      write(sequence, stream)
+      shown = sequence
+    },
+    restore,
+  }
+}
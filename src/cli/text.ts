@@ -0,0 +1,269 @@
+/**
+ * Display-width helpers for terminal text
+ *
+ * Terminal columns are not string length: ANSI escapes take no space, CJK
+ * characters and emoji take two columns and combining marks take none.
+ * Text is measured and cut by grapheme cluster, so "👩‍💻" or "🇯🇵" is never
+ * split into pieces.
+ */
+
+/** Matches CSI (colors, cursor movement) and OSC (titles, links) sequences */
+const ANSI_PATTERN =
+  /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g
+
+/** Zero-width code points: combining marks, ZWJ, variation selectors */
+const ZERO_WIDTH = /[\p{Mn}\p{Me}\u200b-\u200f\u2060\ufe00-\ufe0f]/u
+
+/** Emoji shown as pictures by default take two columns (✔ and ⚠ don't) */
+const EMOJI = /\p{Emoji_Presentation}/u
+
+/** Emoji variation selector and keycap mark: shown as a picture */
+const EMOJI_MODIFIER = /[\ufe0f\u20e3]/u
+
+/** Select Graphic Rendition (colors and styles) */
+const SGR = /^\x1b\[[0-9;]*m$/
+
+/** Turns every style off */
+const RESET = "\x1b[0m"
+
+/** Splits text into user-perceived characters */
+const graphemes = new Intl.Segmenter(undefined, { granularity: "grapheme" })
+
+/**
+ * Remove ANSI escape sequences
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, "")
+}
+
+/**
+ * Column width of a single code point
+ */
+export function charWidth(char: string): number {
+  const code = char.codePointAt(0)!
+
+  // Control characters
+  if (code < 0x20 || (code >= 0x7f && code < 0xa0)) return 0
+  if (ZERO_WIDTH.test(char)) return 0
+  if (isWide(code) || EMOJI.test(char)) return 2
+  return 1
+}
+
+/**
+ * Column width of a grapheme cluster (a user-perceived character)
+ *
+ * Emoji sequences (ZWJ families, flags, keycaps, `✔️`) take two columns;
+ * otherwise the first code point decides and marks after it add nothing.
+ */
+export function graphemeWidth(grapheme: string): number {
+  if (EMOJI.test(grapheme) || EMOJI_MODIFIER.test(grapheme)) {
+    return 2
+  }
+  return charWidth(String.fromCodePoint(grapheme.codePointAt(0)!))
+}
+
+/**
+ * Number of terminal columns a string occupies (ANSI codes ignored)
+ *
+ * @example
+ * ```ts
+ * stringWidth("\x1b[32m✔\x1b[39m done") // 6
+ * stringWidth("日本")                   // 4
+ * ```
+ */
+export function stringWidth(text: string): number {
+  let width = 0
+  for (const { segment } of graphemes.segment(stripAnsi(text))) {
+    width += graphemeWidth(segment)
+  }
+  return width
+}
+
+/**
+ * Truncate to a display width, appending an ellipsis when cut
+ *
+ * Escape sequences are kept (including those after the cut), so colors
+ * are never split mid-sequence and still get reset.
+ *
+ * @example
+ * ```ts
+ * truncate("Parsing markdown files", 10) // "Parsing m…"
+ * ```
+ */
+export function truncate(text: string, width: number, ellipsis = "…"): string {
+  if (stringWidth(text) <= width) {
+    return text
+  }
+
+  const limit = Math.max(0, width - stringWidth(ellipsis))
+  let result = ""
+  let used = 0
+  let cut = false
+
+  for (const token of tokenize(text)) {
+    if (token.escape) {
+      result += token.text
+      continue
+    }
+    if (cut) continue
+    const w = graphemeWidth(token.text)
+    if (used + w > limit) {
+      result += ellipsis
+      cut = true
+      continue
+    }
+    result += token.text
+    used += w
+  }
+
+  return result
+}
+
+/**
+ * Word-wrap text to a display width
+ *
+ * Lines break at spaces; words wider than the line are split. Existing
+ * newlines are kept. Colors and styles open at a break are reset at the end
+ * of the row and re-applied at the start of the next, so every row stands
+ * alone.
+ *
+ * @example
+ * ```ts
+ * wrap("Parsing markdown files in docs", 12)
+ * // "Parsing\nmarkdown\nfiles in\ndocs"
+ * ```
+ */
+export function wrap(text: string, width: number): string {
+  const columns = Math.max(1, Math.floor(width))
+  return text
+    .split("\n")
+    .map((line) => wrapLine(line, columns))
+    .join("\n")
+}
+
+/**
+ * Physical terminal rows a line occupies at the given width (at least 1)
+ */
+export function countRows(line: string, columns: number): number {
+  if (columns <= 0) return 1
+  return Math.max(1, Math.ceil(stringWidth(line) / columns))
+}
+
+/** An escape sequence or one grapheme cluster of visible text */
+interface Token {
+  text: string
+  escape: boolean
+}
+
+/**
+ * Split text into escape sequences and grapheme clusters
+ */
+function* tokenize(text: string): Generator<Token> {
+  let lastIndex = 0
+  const visible = function* (segment: string): Generator<Token> {
+    for (const { segment: grapheme } of graphemes.segment(segment)) {
+      yield { text: grapheme, escape: false }
+    }
+  }
+
+  for (const match of text.matchAll(ANSI_PATTERN)) {
+    yield* visible(text.slice(lastIndex, match.index))
+    yield { text: match[0], escape: true }
+    lastIndex = match.index! + match[0].length
+  }
+  yield* visible(text.slice(lastIndex))
+}
+
+/**
+ * Wrap one line (no newlines) into rows of at most `width` columns
+ */
+function wrapLine(text: string, width: number): string {
+  const rows: string[] = []
+  let row = ""
+  let rowWidth = 0
+  // Spaces between the row and the word being collected
+  let gap = ""
+  let gapWidth = 0
+  let word = ""
+  let wordWidth = 0
+  // SGR sequences in effect now, and where the current word started
+  let style = ""
+  let wordStyle = ""
+
+  const endRow = (openStyle: string) => {
+    rows.push(openStyle ? row + RESET : row)
+    row = openStyle
+    rowWidth = 0
+  }
+
+  const placeWord = () => {
+    if (rowWidth > 0 && rowWidth + gapWidth + wordWidth > width) {
+      endRow(wordStyle)
+    } else {
+      row += gap
+      rowWidth += gapWidth
+    }
+    row += word
+    rowWidth += wordWidth
+    word = ""
+    wordWidth = 0
+    gap = ""
+    gapWidth = 0
+  }
+
+  for (const token of tokenize(text)) {
+    if (token.text === " ") {
+      if (word) placeWord()
+      gap += " "
+      gapWidth++
+      continue
+    }
+
+    if (!word) wordStyle = style
+
+    if (token.escape) {
+      word += token.text
+      if (SGR.test(token.text)) {
+        style =
+          token.text === RESET || token.text === "\x1b[m"
+            ? ""
+            : style + token.text
+      }
+      continue
+    }
+
+    const w = graphemeWidth(token.text)
+    if (wordWidth > 0 && wordWidth + w > width) {
+      // Word wider than a row: split it
+      placeWord()
+      endRow(style)
+      wordStyle = style
+    }
+    word += token.text
+    wordWidth += w
+  }
+
+  if (word) placeWord()
+  rows.push(row)
+  return rows.join("\n")
+}
+
+/**
+ * East Asian Wide and Fullwidth ranges
+ */
+function isWide(code: number): boolean {
+  return (
+    (code >= 0x1100 && code <= 0x115f) || // Hangul Jamo
+    (code >= 0x2e80 && code <= 0x303e) || // CJK radicals, punctuation
+    (code >= 0x3041 && code <= 0x33ff) || // Kana, CJK symbols
+    (code >= 0x3400 && code <= 0x4dbf) || // CJK Extension A
+    (code >= 0x4e00 && code <= 0x9fff) || // CJK Unified Ideographs
+    (code >= 0xa000 && code <= 0xa4cf) || // Yi
+    (code >= 0xac00 && code <= 0xd7a3) || // Hangul syllables
+    (code >= 0xf900 && code <= 0xfaff) || // CJK compatibility ideographs
+    (code >= 0xfe30 && code <= 0xfe4f) || // CJK compatibility forms
+    (code >= 0xff00 && code <= 0xff60) || // Fullwidth forms
+    (code >= 0xffe0 && code <= 0xffe6) ||
+    (code >= 0x20000 && code <= 0x3fffd) // CJK Extensions B+
+  )
+}
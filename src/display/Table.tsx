@@ -4,6 +4,7 @@
 
 import React from "react"
 import type { TableProps, TableColumn } from "../types.js"
+import { stringWidth, truncate } from "../cli/text.js"
 
 /**
  * Unicode box drawing characters for borders
@@ -99,12 +100,12 @@ function calculateColumnWidths(
       return { ...col, effectiveWidth: col.width }
     }
 
-    // Calculate width from content
-    let maxWidth = col.header.length
+    // Calculate width from content (display columns, not string length)
+    let maxWidth = stringWidth(col.header)
 
     for (const row of data) {
       const value = String(row[col.key] ?? "")
-      maxWidth = Math.max(maxWidth, value.length)
+      maxWidth = Math.max(maxWidth, stringWidth(value))
     }
 
     return { ...col, effectiveWidth: maxWidth }
@@ -191,13 +192,13 @@ function formatCell(
   width: number,
   align: "left" | "center" | "right",
 ): string {
-  // Truncate if too long
-  if (value.length > width) {
-    return value.slice(0, width - 1) + "…"
+  // Truncate if too long (a cut wide character may leave one column free)
+  if (stringWidth(value) > width) {
+    value = truncate(value, width)
   }
 
   // Pad according to alignment
-  const padding = width - value.length
+  const padding = width - stringWidth(value)
 
   switch (align) {
     case "right":
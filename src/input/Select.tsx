@@ -6,6 +6,8 @@
 
 import React, { useState, useEffect, useCallback } from "react"
 import type { SelectProps, SelectOption } from "../types.js"
+import { useTheme } from "../react/theme.js"
+import { stringWidth } from "../cli/text.js"
 
 /**
  * Scrollable single-choice selection list
@@ -39,6 +41,8 @@ export function Select<T>({
   highlightIndex: controlledHighlightIndex,
   onHighlightChange,
 }: SelectProps<T>): React.ReactElement {
+  const { pointer, more } = useTheme().prompt
+
   // Find the index of the currently selected value
   const selectedIndex = options.findIndex((opt) => opt.value === value)
 
@@ -71,7 +75,7 @@ export function Select<T>({
 
   return (
     <div data-inkx-select>
-      {hasMoreAbove && <div data-inkx-select-scroll-indicator="up">...</div>}
+      {hasMoreAbove && <div data-inkx-select-scroll-indicator="up">{more}</div>}
       {visibleOptions.map((option, visibleIdx) => {
         const actualIndex = scrollOffset + visibleIdx
         const isSelected = option.value === value
@@ -84,12 +88,16 @@ export function Select<T>({
             data-selected={isSelected}
             data-highlighted={isHighlighted}
           >
-            <span data-inkx-select-indicator>{isSelected ? ">" : " "}</span>
+            <span data-inkx-select-indicator>
+              {isSelected ? pointer : " ".repeat(stringWidth(pointer))}
+            </span>
             <span data-inkx-select-label>{option.label}</span>
           </div>
         )
       })}
-      {hasMoreBelow && <div data-inkx-select-scroll-indicator="down">...</div>}
+      {hasMoreBelow && (
+        <div data-inkx-select-scroll-indicator="down">{more}</div>
+      )}
     </div>
   )
 }
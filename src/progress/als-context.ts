@@ -8,6 +8,7 @@
 
 import { AsyncLocalStorage } from "node:async_hooks"
 import type { TaskHandle } from "../cli/multi-progress.js"
+import { createThrottle, DEFAULT_THROTTLE } from "../utils/throttle.js"
 
 /**
  * Context available to work functions during step execution
@@ -21,6 +22,12 @@ export interface StepContext {
 
   /** Get current step label (for debugging) */
   readonly label: string
+
+  /**
+   * Aborted when the run is cancelled - pass it to `fetch`, child processes
+   * and other cancellable work
+   */
+  readonly signal: AbortSignal
 }
 
 /**
@@ -41,11 +48,26 @@ export interface InternalStepContext extends StepContext {
 
   /** Complete current sub-step (called by runner) */
   _completeSubStep(): void
+
+  /** Mark current sub-step as failed (called by runner on error) */
+  _failSubStep(error?: unknown): void
+
+  /** Mark current sub-step as skipped (called by runner on cancellation) */
+  _skipSubStep(): void
+
+  /**
+   * Drop pending and later progress once the step has finished (called by
+   * runner; a cancelled work function may keep reporting)
+   */
+  _close(): void
 }
 
 // AsyncLocalStorage instance
 const stepContext = new AsyncLocalStorage<InternalStepContext>()
 
+/** Signal for contexts that can't be cancelled */
+const NEVER_ABORTED = new AbortController().signal
+
 /**
  * Get the current step context
  *
@@ -84,16 +106,39 @@ export function runWithStepContext<T>(
 
 /**
  * Create an internal step context for the runner
+ *
+ * `progress()` calls are throttled to one row update per `throttle` ms; the
+ * latest value is applied when the interval ends or the sub-step changes.
+ * Rows no longer running ignore it.
  */
 export function createStepContext(
   label: string,
   handle: TaskHandle,
   onSubStep?: (label: string) => TaskHandle,
+  signal: AbortSignal = NEVER_ABORTED,
+  throttle = DEFAULT_THROTTLE,
 ): InternalStepContext {
   let currentSubLabel: string | undefined
   let currentSubHandle: TaskHandle | null = null
   let subStepStartTime = 0
   const declaredHandles = new Map<string, TaskHandle>()
+  let closed = false
+
+  // Latest progress not yet applied to its row
+  let pending: {
+    target: TaskHandle
+    title: string
+    current: number
+    total: number
+  } | null = null
+  const progressThrottle = createThrottle(() => {
+    if (!pending) return
+    const { target, title, current, total } = pending
+    pending = null
+    if (target.status !== "running") return
+    target.update(current, total)
+    target.setTitle(`${title} (${current}/${total})`)
+  }, throttle)
 
   return {
     get label() {
@@ -104,15 +149,21 @@ export function createStepContext(
       return handle
     },
 
+    get signal() {
+      return signal
+    },
+
     progress(current: number, total: number) {
-      if (currentSubHandle) {
-        currentSubHandle.setTitle(`${currentSubLabel} (${current}/${total})`)
-      } else {
-        handle.setTitle(`${label} (${current}/${total})`)
-      }
+      if (closed) return
+      pending = currentSubHandle
+        ? { target: currentSubHandle, title: currentSubLabel!, current, total }
+        : { target: handle, title: label, current, total }
+      progressThrottle.schedule()
     },
 
     sub(subLabel: string) {
+      if (closed) return
+
       // Complete previous sub-step if any
       this._completeSubStep()
 
@@ -134,12 +185,14 @@ export function createStepContext(
     },
 
     _setCurrentSubHandle(subLabel: string, subHandle: TaskHandle) {
+      progressThrottle.flush()
       currentSubLabel = subLabel
       currentSubHandle = subHandle
       subStepStartTime = Date.now()
     },
 
     _completeSubStep() {
+      progressThrottle.flush()
       if (currentSubHandle && currentSubLabel) {
         const elapsed = Date.now() - subStepStartTime
         // Use numeric timing - preserves current title (which may have progress info)
@@ -148,6 +201,30 @@ export function createStepContext(
         currentSubLabel = undefined
       }
     },
+
+    _failSubStep(error?: unknown) {
+      progressThrottle.flush()
+      if (currentSubHandle) {
+        currentSubHandle.fail(undefined, error)
+        currentSubHandle = null
+        currentSubLabel = undefined
+      }
+    },
+
+    _skipSubStep() {
+      progressThrottle.flush()
+      if (currentSubHandle) {
+        currentSubHandle.skip()
+        currentSubHandle = null
+        currentSubLabel = undefined
+      }
+    },
+
+    _close() {
+      closed = true
+      pending = null
+      progressThrottle.cancel()
+    },
   }
 }
 
@@ -160,4 +237,7 @@ const NO_OP_CONTEXT: StepContext = {
   get label() {
     return ""
   },
+  get signal() {
+    return NEVER_ABORTED
+  },
 }
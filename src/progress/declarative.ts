@@ -5,7 +5,13 @@
  * structure and shows all steps upfront before execution.
  */
 
-import { MultiProgress, type TaskHandle } from "../cli/multi-progress.js"
+import {
+  MultiProgress,
+  type MultiProgressMode,
+  type TaskHandle,
+} from "../cli/multi-progress.js"
+import { write } from "../cli/ansi.js"
+import type { ProgressReporter } from "../types.js"
 import {
   step as getStepContext,
   createStepContext,
@@ -15,10 +21,14 @@ import {
 import {
   parseStepsDef,
   flattenStepNodes,
-  getLeafNodes,
+  getParallelOptions,
+  type ParallelOptions,
+  type RetryOptions,
   type StepNode,
   type StepsDef,
 } from "./step-node.js"
+import { formatTimingSummary, type SummaryOptions } from "./summary.js"
+import { DEFAULT_THROTTLE } from "../utils/throttle.js"
 
 // Re-export step() for convenience
 export { step } from "./als-context.js"
@@ -36,6 +46,41 @@ declare function setTimeout(
 export interface ExecuteOptions {
   /** Clear progress display after completion (default: false) */
   clear?: boolean
+  /** Print console output above the progress display (default: false) */
+  patchConsole?: boolean
+  /**
+   * Cancel the run: the current and pending steps are marked skipped, the
+   * display is stopped and run()/pipe() rejects with the abort reason.
+   * Work functions can read it via `step().signal`.
+   */
+  signal?: AbortSignal
+  /** Display mode (default: "auto"; "silent" pairs with a reporter) */
+  mode?: MultiProgressMode
+  /** Receives structured events for every step transition */
+  reporter?: ProgressReporter
+  /**
+   * Print total wall time, the slowest steps and each group's share after
+   * a successful run, below the progress output (default: false; never in
+   * "silent" mode)
+   */
+  summary?: boolean | SummaryOptions
+  /**
+   * Minimum ms between `step().progress()` row updates (default: 16) and
+   * between redraws for them (default: 80); the last value is always drawn
+   */
+  throttle?: number
+  /**
+   * Show overall progress in the terminal's tab or taskbar with OSC 9;4,
+   * red once a step fails; cleared when the run ends (default: false)
+   */
+  terminalProgress?: boolean
+  /**
+   * Keep the terminal title at the overall percentage and current step;
+   * a string is appended as the program name ("[42%] Parsing markdown — km
+   * sync"). The original title comes back when the run ends, fails or is
+   * interrupted (default: false)
+   */
+  windowTitle?: boolean | string
 }
 
 /**
@@ -74,13 +119,17 @@ export interface StepsRunner<T extends StepsDef> {
   readonly _steps: StepNode[]
 
   /**
-   * Execute all steps sequentially
+   * Execute all steps sequentially (groups marked with parallel() run
+   * their steps concurrently)
    * @returns Results keyed by step name
    */
   run(options?: ExecuteOptions): Promise<StepResults<T>>
 
   /**
    * Execute all steps in a pipeline (each receives previous result)
+   *
+   * Steps in a parallel group all receive the same input; the group passes
+   * on an object of their results keyed by step name.
    * @returns Final step's result
    */
   pipe(options?: ExecuteOptions): Promise<unknown>
@@ -113,24 +162,78 @@ export interface StepsRunner<T extends StepsDef> {
 export function stepsDeclarative<T extends StepsDef>(def: T): StepsRunner<T> {
   const rootNodes = parseStepsDef(def)
   const allNodes = flattenStepNodes(rootNodes)
+  const rootParallel = getParallelOptions(def)
 
   let multi: MultiProgress | null = null
   const handles = new Map<StepNode, TaskHandle>()
 
-  // Build group tracking: map each group to its leaf nodes
-  const groupLeaves = new Map<StepNode, StepNode[]>()
-  const leafToGroups = new Map<StepNode, StepNode[]>()
-
-  for (const node of allNodes) {
-    if (node.children) {
-      const leaves = getLeafNodes([node])
-      groupLeaves.set(node, leaves)
-      for (const leaf of leaves) {
-        const groups = leafToGroups.get(leaf) ?? []
-        groups.push(node)
-        leafToGroups.set(leaf, groups)
+  /** Register steps, run the tree, and stop the display */
+  async function execute(
+    state: Pick<RunState, "piped" | "results">,
+    options?: ExecuteOptions,
+  ): Promise<unknown> {
+    // Always hand work functions a signal, even if the run can't be aborted
+    const signal = options?.signal ?? new AbortController().signal
+    const stream = process.stdout
+
+    multi = new MultiProgress(stream, {
+      patchConsole: options?.patchConsole,
+      mode: options?.mode,
+      reporter: options?.reporter,
+      throttle: options?.throttle,
+      terminalProgress: options?.terminalProgress,
+      windowTitle: options?.windowTitle,
+    })
+
+    // Register all steps upfront (shows pending state)
+    registerAllSteps(allNodes, multi, handles)
+
+    multi.start()
+
+    // Yield to event loop to ensure initial render is displayed
+    // before we start modifying task states
+    await new Promise((r) => setImmediate(r))
+
+    const runState: RunState = {
+      ...state,
+      multi,
+      handles,
+      signal,
+      timings: new Map(),
+      throttle: options?.throttle ?? DEFAULT_THROTTLE,
+    }
+    const runStart = Date.now()
+    let output: unknown
+
+    try {
+      signal.throwIfAborted()
+      output = rootParallel
+        ? await executeParallel(rootNodes, rootParallel, runState, undefined)
+        : await executeNodes(rootNodes, runState, undefined)
+    } catch (error) {
+      if (signal.aborted) {
+        // Cancelled: nothing left will run
+        for (const handle of handles.values()) {
+          if (handle.status === "pending") handle.skip()
+        }
       }
+      throw error
+    } finally {
+      multi.stop(options?.clear ?? false)
     }
+
+    // The summary goes with the progress output (none when silent)
+    if (options?.summary && options.mode !== "silent") {
+      const summary = formatTimingSummary(
+        rootNodes,
+        runState.timings,
+        Date.now() - runStart,
+        options.summary === true ? {} : options.summary,
+      )
+      write(`\n${summary}\n`, stream)
+    }
+
+    return output
   }
 
   return {
@@ -139,119 +242,162 @@ export function stepsDeclarative<T extends StepsDef>(def: T): StepsRunner<T> {
     },
 
     async run(options?: ExecuteOptions): Promise<StepResults<T>> {
-      multi = new MultiProgress()
-
-      // Register all steps upfront (shows pending state)
-      registerAllSteps(allNodes, multi, handles)
+      const results: Record<string, unknown> = {}
+      await execute({ piped: false, results }, options)
+      return results as StepResults<T>
+    },
 
-      // Group timing tracking
-      const groupStartTimes = new Map<StepNode, number>()
-      const completedLeaves = new Set<StepNode>()
+    async pipe(options?: ExecuteOptions): Promise<unknown> {
+      return execute({ piped: true, results: {} }, options)
+    },
 
-      multi.start()
+    done(options?: { clear?: boolean }) {
+      if (multi) {
+        multi.stop(options?.clear ?? false)
+        multi = null
+      }
+    },
+  }
+}
 
-      // Yield to event loop to ensure initial render is displayed
-      // before we start modifying task states
-      await new Promise((r) => setImmediate(r))
+/**
+ * State shared by all steps of one run() or pipe() execution
+ */
+interface RunState {
+  multi: MultiProgress
+  handles: Map<StepNode, TaskHandle>
+  /** pipe(): each step receives the previous step's result */
+  piped: boolean
+  /** Leaf results keyed by step key */
+  results: Record<string, unknown>
+  /** Cancels the run when aborted */
+  signal: AbortSignal
+  /** Duration (ms) of every step and group that ran, for the summary */
+  timings: Map<StepNode, number>
+  /** Minimum ms between `step().progress()` row updates */
+  throttle: number
+}
 
-      const results: Record<string, unknown> = {}
+/**
+ * Execute nodes one after another
+ *
+ * @returns The last node's output (the pipe() chain value)
+ */
+async function executeNodes(
+  nodes: StepNode[],
+  state: RunState,
+  input: unknown,
+): Promise<unknown> {
+  let previous = input
+  for (const node of nodes) {
+    previous = await executeNode(
+      node,
+      state,
+      state.piped ? previous : undefined,
+    )
+  }
+  return previous
+}
 
+/**
+ * Execute nodes concurrently, at most `concurrency` at a time
+ *
+ * Every node receives the same input. Waits for all running nodes to settle
+ * before rethrowing the first failure; nodes not yet started are skipped.
+ *
+ * @returns Outputs keyed by node key (the pipe() chain value)
+ */
+async function executeParallel(
+  nodes: StepNode[],
+  options: ParallelOptions,
+  state: RunState,
+  input: unknown,
+): Promise<Record<string, unknown>> {
+  const outputs: Record<string, unknown> = {}
+  const limit = Math.max(1, options.concurrency ?? nodes.length)
+  let next = 0
+  let failed = false
+  let firstError: unknown
+
+  const worker = async () => {
+    while (next < nodes.length && !failed) {
+      const node = nodes[next++]!
       try {
-        // Execute each step with work
-        for (const node of allNodes) {
-          if (node.work) {
-            // Start parent groups if not started
-            const groups = leafToGroups.get(node) ?? []
-            for (const group of groups) {
-              if (!groupStartTimes.has(group)) {
-                groupStartTimes.set(group, Date.now())
-                handles.get(group)?.start()
-              }
-            }
-
-            const result = await executeStep(node, handles, multi)
-            setNestedResult(results, node.key, result)
-
-            // Mark leaf as complete and check group completion
-            completedLeaves.add(node)
-            for (const group of groups) {
-              const leaves = groupLeaves.get(group) ?? []
-              if (leaves.every((l) => completedLeaves.has(l))) {
-                const elapsed = Date.now() - groupStartTimes.get(group)!
-                handles.get(group)?.complete(elapsed)
-              }
-            }
-          }
+        outputs[node.key] = await executeNode(node, state, input)
+      } catch (error) {
+        if (!failed) {
+          failed = true
+          firstError = error
         }
-      } finally {
-        multi.stop(options?.clear ?? false)
       }
+    }
+  }
 
-      return results as StepResults<T>
-    },
-
-    async pipe(options?: ExecuteOptions): Promise<unknown> {
-      multi = new MultiProgress()
-
-      // Register all steps upfront
-      registerAllSteps(allNodes, multi, handles)
+  const workers = Array.from({ length: Math.min(limit, nodes.length) }, worker)
+  await Promise.all(workers)
 
-      // Group timing tracking
-      const groupStartTimes = new Map<StepNode, number>()
-      const completedLeaves = new Set<StepNode>()
+  if (failed) {
+    for (const node of nodes.slice(next)) {
+      skipNode(node, state)
+    }
+    throw firstError
+  }
 
-      multi.start()
+  return outputs
+}
 
-      // Yield to event loop to ensure initial render is displayed
-      // before we start modifying task states
-      await new Promise((r) => setImmediate(r))
+/**
+ * Execute a single node: a leaf step or a (sequential/parallel) group
+ */
+async function executeNode(
+  node: StepNode,
+  state: RunState,
+  input: unknown,
+): Promise<unknown> {
+  if (node.work) {
+    const startTime = Date.now()
+    try {
+      const result = await executeStep(node, state, input)
+      setNestedResult(state.results, node.key, result)
+      return result
+    } finally {
+      state.timings.set(node, Date.now() - startTime)
+    }
+  }
 
-      let previousResult: unknown = undefined
+  if (!node.children) {
+    return input
+  }
 
-      try {
-        // Execute each step, passing previous result
-        for (const node of allNodes) {
-          if (node.work) {
-            // Start parent groups if not started
-            const groups = leafToGroups.get(node) ?? []
-            for (const group of groups) {
-              if (!groupStartTimes.has(group)) {
-                groupStartTimes.set(group, Date.now())
-                handles.get(group)?.start()
-              }
-            }
-
-            previousResult = await executeStep(
-              node,
-              handles,
-              multi,
-              previousResult,
-            )
-
-            // Mark leaf as complete and check group completion
-            completedLeaves.add(node)
-            for (const group of groups) {
-              const leaves = groupLeaves.get(group) ?? []
-              if (leaves.every((l) => completedLeaves.has(l))) {
-                const elapsed = Date.now() - groupStartTimes.get(group)!
-                handles.get(group)?.complete(elapsed)
-              }
-            }
-          }
-        }
-      } finally {
-        multi.stop(options?.clear ?? false)
-      }
+  const handle = state.handles.get(node)
+  const startTime = Date.now()
+  handle?.start()
 
-      return previousResult
-    },
+  try {
+    const output = node.parallel
+      ? await executeParallel(node.children, node.parallel, state, input)
+      : await executeNodes(node.children, state, input)
+    const elapsed = Date.now() - startTime
+    state.timings.set(node, elapsed)
+    handle?.complete(elapsed)
+    return output
+  } catch (error) {
+    if (state.signal.aborted) {
+      handle?.skip()
+    } else {
+      handle?.fail(undefined, error)
+    }
+    throw error
+  }
+}
 
-    done(options?: { clear?: boolean }) {
-      if (multi) {
-        multi.stop(options?.clear ?? false)
-        multi = null
-      }
-    },
+/**
+ * Mark a node that never started (and its children) as skipped
+ */
+function skipNode(node: StepNode, state: RunState): void {
+  state.handles.get(node)?.skip()
+  for (const child of node.children ?? []) {
+    skipNode(child, state)
   }
 }
 
@@ -274,49 +420,132 @@ function registerAllSteps(
   }
 }
 
+/** Finds or adds the row of a sub-step, inserted after `insertAfter` */
+type AddSubRow = (label: string, insertAfter: string) => TaskHandle
+
+/** Default delay before the first retry (doubles each attempt) */
+const DEFAULT_RETRY_DELAY = 200
+
 /**
- * Execute a single step
+ * Execute a single leaf step, retrying if it has a retry policy
  */
 async function executeStep(
   node: StepNode,
-  handles: Map<StepNode, TaskHandle>,
-  multi: MultiProgress,
+  state: RunState,
   input?: unknown,
 ): Promise<unknown> {
-  const handle = handles.get(node)!
+  const { signal } = state
+  const handle = state.handles.get(node)!
+  // Timing covers all attempts
   const startTime = Date.now()
+  const attempts = node.retry ? Math.max(1, node.retry.attempts ?? 3) : 1
+  // Sub-step rows by label, kept across attempts so a retry reuses them
+  const subRows = new Map<string, TaskHandle>()
 
   // Yield to event loop before starting
   await new Promise((r) => setImmediate(r))
+  signal.throwIfAborted()
+
+  handle.start()
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await executeAttempt(
+        node,
+        handle,
+        state,
+        input,
+        startTime,
+        subRows,
+      )
+    } catch (error) {
+      if (signal.aborted) {
+        handle.skip(`${node.label} — cancelled`)
+        throw error
+      }
+
+      const retryIf = node.retry?.retryIf
+      if (attempt >= attempts || (retryIf && !retryIf(error, attempt))) {
+        handle.fail(undefined, error)
+        throw error
+      }
+
+      handle.setTitle(`${node.label} — retrying (${attempt + 1}/${attempts})`)
+      const delay = getRetryDelay(node.retry!, attempt, error)
+      try {
+        await raceAbort(new Promise((r) => setTimeout(r, delay)), signal)
+      } catch (abortError) {
+        handle.skip(`${node.label} — cancelled`)
+        throw abortError
+      }
+      handle.setTitle(node.label)
+      for (const [label, row] of subRows) {
+        row.reset(label)
+      }
+    }
+  }
+}
+
+/**
+ * Run a step's work function once and complete its row on success
+ *
+ * @param subRows - Sub-step rows of earlier attempts, reused by label
+ */
+async function executeAttempt(
+  node: StepNode,
+  handle: TaskHandle,
+  state: RunState,
+  input: unknown,
+  startTime: number,
+  subRows: Map<string, TaskHandle>,
+): Promise<unknown> {
+  const { multi, signal } = state
+
+  /** Sub-step row for a label, added after `insertAfter` the first time */
+  const addSubRow: AddSubRow = (label, insertAfter) => {
+    let row = subRows.get(label)
+    if (!row) {
+      row = multi.add(label, {
+        type: "spinner",
+        indent: node.indent + 1,
+        insertAfter,
+      })
+      subRows.set(label, row)
+    }
+    return row
+  }
 
   // Create step context for ALS
-  const ctx = createStepContext(node.label, handle, (subLabel) => {
+  const ctx = createStepContext(
+    node.label,
+    handle,
     // Create sub-step handle when step().sub() is called
-    return multi.add(subLabel, {
-      type: "spinner",
-      indent: node.indent + 1,
-      insertAfter: handle.id,
-    })
-  })
-
-  handle.start()
+    (subLabel) => addSubRow(subLabel, handle.id),
+    signal,
+    state.throttle,
+  )
 
   try {
-    // Run work function with ALS context
-    const result = await runWithStepContext(ctx, () => {
-      if (input !== undefined) {
-        return (node.work as (input: unknown) => unknown)(input)
-      }
-      return node.work!()
-    })
+    // Run work function with ALS context; stop waiting for it on abort
+    const result = await raceAbort(
+      Promise.resolve(
+        runWithStepContext(ctx, () => {
+          if (input !== undefined) {
+            return (node.work as (input: unknown) => unknown)(input)
+          }
+          return node.work!()
+        }),
+      ),
+      signal,
+    )
 
     // Handle generator results
     if (isGenerator(result)) {
-      return await runGenerator(result, ctx, node, multi)
+      return await runGenerator(result, ctx, addSubRow, startTime)
     }
 
     if (isAsyncGenerator(result)) {
-      return await runAsyncGenerator(result, ctx, node, multi)
+      return await runAsyncGenerator(result, ctx, addSubRow, startTime)
     }
 
     // Complete any remaining sub-step
@@ -328,21 +557,66 @@ async function executeStep(
 
     return result
   } catch (error) {
-    handle.fail()
+    if (signal.aborted) {
+      ctx._skipSubStep()
+    } else {
+      ctx._failSubStep(error)
+    }
     throw error
+  } finally {
+    ctx._close()
   }
 }
 
+/**
+ * Settle with `promise`, or reject with the abort reason if `signal` fires
+ * first. The abandoned promise keeps running but its outcome is ignored.
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason)
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener("abort", onAbort, { once: true })
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort)
+        resolve(value)
+      },
+      (error: unknown) => {
+        signal.removeEventListener("abort", onAbort)
+        reject(error)
+      },
+    )
+  })
+}
+
+/**
+ * Delay in ms before retrying after `attempt` failed
+ */
+function getRetryDelay(
+  options: RetryOptions,
+  attempt: number,
+  error: unknown,
+): number {
+  const { backoff } = options
+  if (typeof backoff === "function") {
+    return backoff(attempt, error)
+  }
+  return backoff ?? DEFAULT_RETRY_DELAY * 2 ** (attempt - 1)
+}
+
 /**
  * Run a sync generator step
  */
 async function runGenerator<T>(
   gen: Generator<unknown, T, unknown>,
   ctx: InternalStepContext,
-  node: StepNode,
-  multi: MultiProgress,
+  addSubRow: AddSubRow,
+  startTime: number,
 ): Promise<T> {
-  const startTime = Date.now()
   let result = gen.next()
   let hasSubSteps = false
   // Track last inserted handle to maintain correct order
@@ -360,11 +634,7 @@ async function runGenerator<T>(
         ctx.handle.setType("group")
       }
       for (const label of value.declare) {
-        const subHandle = multi.add(label, {
-          type: "spinner",
-          indent: node.indent + 1,
-          insertAfter: lastInsertedId,
-        })
+        const subHandle = addSubRow(label, lastInsertedId)
         lastInsertedId = subHandle.id
         ctx._addSubHandle(label, subHandle)
       }
@@ -384,13 +654,10 @@ async function runGenerator<T>(
         ctx._setCurrentSubHandle(value, existingHandle)
         existingHandle.start()
       } else {
-        const subHandle = multi.add(value, {
-          type: "spinner",
-          indent: node.indent + 1,
-          insertAfter: lastInsertedId,
-        })
+        const subHandle = addSubRow(value, lastInsertedId)
         lastInsertedId = subHandle.id
         ctx._addSubHandle(value, subHandle)
+        ctx._setCurrentSubHandle(value, subHandle)
         subHandle.start()
       }
     } else if (isProgressUpdate(value)) {
@@ -400,6 +667,7 @@ async function runGenerator<T>(
 
     // Yield to event loop for animation
     await new Promise((r) => setTimeout(r, 0))
+    ctx.signal.throwIfAborted()
 
     result = gen.next()
   }
@@ -420,11 +688,10 @@ async function runGenerator<T>(
 async function runAsyncGenerator<T>(
   gen: AsyncGenerator<unknown, T, unknown>,
   ctx: InternalStepContext,
-  node: StepNode,
-  multi: MultiProgress,
+  addSubRow: AddSubRow,
+  startTime: number,
 ): Promise<T> {
-  const startTime = Date.now()
-  let result = await gen.next()
+  let result = await raceAbort(gen.next(), ctx.signal)
   let hasSubSteps = false
   // Track last inserted handle to maintain correct order
   // Each new sub-step inserts after the previous one, not after parent
@@ -441,11 +708,7 @@ async function runAsyncGenerator<T>(
         ctx.handle.setType("group")
       }
       for (const label of value.declare) {
-        const subHandle = multi.add(label, {
-          type: "spinner",
-          indent: node.indent + 1,
-          insertAfter: lastInsertedId,
-        })
+        const subHandle = addSubRow(label, lastInsertedId)
         lastInsertedId = subHandle.id
         ctx._addSubHandle(label, subHandle)
       }
@@ -465,13 +728,10 @@ async function runAsyncGenerator<T>(
         ctx._setCurrentSubHandle(value, existingHandle)
         existingHandle.start()
       } else {
-        const subHandle = multi.add(value, {
-          type: "spinner",
-          indent: node.indent + 1,
-          insertAfter: lastInsertedId,
-        })
+        const subHandle = addSubRow(value, lastInsertedId)
         lastInsertedId = subHandle.id
         ctx._addSubHandle(value, subHandle)
+        ctx._setCurrentSubHandle(value, subHandle)
         subHandle.start()
       }
     } else if (isProgressUpdate(value)) {
@@ -482,7 +742,7 @@ async function runAsyncGenerator<T>(
     // Yield to event loop for animation
     await new Promise((r) => setTimeout(r, 0))
 
-    result = await gen.next()
+    result = await raceAbort(gen.next(), ctx.signal)
   }
 
   // Complete any remaining sub-step
@@ -5,7 +5,7 @@
  *
  * @example Declarative mode (recommended)
  * ```typescript
- * import { steps, step } from "@beorn/inkx-ui/progress";
+ * import { steps, step, parallel } from "@beorn/inkx-ui/progress";
  *
  * const loader = steps({
  *   loadModules,           // Auto-named: "Load modules"
@@ -13,6 +13,10 @@
  *     discover,            //   "Discover"
  *     parse,               //   "Parse"
  *   },
+ *   fetchAll: parallel({   // Group whose steps run concurrently
+ *     fetchUsers,
+ *     fetchPosts,
+ *   }),
  * });
  *
  * const results = await loader.run({ clear: true });
@@ -31,12 +35,17 @@
 export {
   steps,
   step,
+  parallel,
+  retry,
   type StepBuilder,
   type ExecuteOptions,
   type StepsRunner,
   type StepsDef,
   type StepNode,
   type StepContext,
+  type ParallelOptions,
+  type RetryOptions,
+  type SummaryOptions,
 } from "./steps.js"
 
 // Legacy task wrappers (deprecated - use steps() instead)
@@ -49,6 +58,12 @@ export { tasks, type TaskBuilder, type RunOptions } from "./tasks.js"
 export { Spinner, createSpinner, type CallableSpinner } from "../cli/spinner.js"
 export { ProgressBar } from "../cli/progress-bar.js"
 export { MultiProgress, type TaskHandle } from "../cli/multi-progress.js"
+export { createNdjsonReporter } from "../cli/ndjson-reporter.js"
 
 // Re-export types
-export type { ProgressInfo, StepProgress } from "../types.js"
+export type {
+  ProgressInfo,
+  StepProgress,
+  ProgressEvent,
+  ProgressReporter,
+} from "../types.js"
@@ -23,8 +23,43 @@ export interface StepNode {
 
   /** Indentation level for display */
   indent: number
+
+  /** Run children concurrently (if group node marked with parallel()) */
+  parallel?: ParallelOptions
+
+  /** Retry policy (if work function wrapped with retry()) */
+  retry?: RetryOptions
+}
+
+/**
+ * Options for a parallel group
+ */
+export interface ParallelOptions {
+  /** Maximum number of children running at once (default: unlimited) */
+  concurrency?: number
 }
 
+/**
+ * Retry policy for a step
+ */
+export interface RetryOptions {
+  /** Total number of attempts, including the first (default: 3) */
+  attempts?: number
+  /**
+   * Delay before the next attempt in ms: a fixed number, or a function of
+   * the attempt that just failed (default: 200ms doubling each attempt)
+   */
+  backoff?: number | ((attempt: number, error: unknown) => number)
+  /** Return false to fail right away instead of retrying */
+  retryIf?: (error: unknown, attempt: number) => boolean
+}
+
+/** Hidden marker set by parallel() on a group definition */
+const PARALLEL = Symbol("parallel")
+
+/** Hidden marker set by retry() on a work function */
+const RETRY = Symbol("retry")
+
 /**
  * What users can declare as a step value
  */
@@ -53,36 +88,121 @@ export function parseStepsDef(def: StepsDef, indent = 0): StepNode[] {
   for (const [key, value] of Object.entries(def)) {
     if (typeof value === "function") {
       // Function: auto-generate label from key
-      nodes.push({
-        key,
-        label: generateLabel(key),
-        work: value,
-        indent,
-      })
+      nodes.push(
+        withRetryOptions({
+          key,
+          label: generateLabel(key),
+          work: value,
+          indent,
+        }),
+      )
     } else if (Array.isArray(value) && value.length === 2) {
       // Tuple: [label, function]
       const [label, work] = value as [string, (...args: unknown[]) => unknown]
-      nodes.push({
-        key,
-        label,
-        work,
-        indent,
-      })
+      nodes.push(
+        withRetryOptions({
+          key,
+          label,
+          work,
+          indent,
+        }),
+      )
     } else if (typeof value === "object" && value !== null) {
       // Nested group
       const children = parseStepsDef(value as StepsDef, indent + 1)
-      nodes.push({
+      const node: StepNode = {
         key,
         label: generateLabel(key),
         children,
         indent,
-      })
+      }
+      const parallel = getParallelOptions(value as StepsDef)
+      if (parallel) {
+        node.parallel = parallel
+      }
+      nodes.push(node)
     }
   }
 
   return nodes
 }
 
+/**
+ * Mark a group to run its steps concurrently
+ *
+ * Each step keeps its own row; the group completes when all of them have
+ * settled. Results still land under their keys.
+ *
+ * @param def - The group's steps
+ * @param options - Optional concurrency limit
+ * @returns A copy of the group, marked as parallel
+ *
+ * @example
+ * ```typescript
+ * const results = await steps({
+ *   fetchAll: parallel({ fetchUsers, fetchPosts, fetchTags }, { concurrency: 2 }),
+ *   render,
+ * }).run();
+ * ```
+ */
+export function parallel<T extends StepsDef>(
+  def: T,
+  options: ParallelOptions = {},
+): T {
+  const group = { ...def }
+  Object.defineProperty(group, PARALLEL, { value: options, enumerable: false })
+  return group
+}
+
+/**
+ * Get the parallel options of a group definition (undefined if sequential)
+ */
+export function getParallelOptions(def: StepsDef): ParallelOptions | undefined {
+  return (def as { [PARALLEL]?: ParallelOptions })[PARALLEL]
+}
+
+/**
+ * Retry a step when its work function throws
+ *
+ * While waiting between attempts the step's row shows "retrying (2/3)";
+ * the reported time covers all attempts.
+ *
+ * @param work - The step's work function
+ * @param options - Attempt count, backoff and an optional error predicate
+ * @returns The same work function, marked for retrying
+ *
+ * @example
+ * ```typescript
+ * await steps({
+ *   fetchIndex: retry(fetchIndex, {
+ *     attempts: 4,
+ *     backoff: (attempt) => attempt * 500,
+ *     retryIf: (error) => error instanceof NetworkError,
+ *   }),
+ *   parse,
+ * }).run();
+ * ```
+ */
+export function retry<F extends (...args: never[]) => unknown>(
+  work: F,
+  options: RetryOptions = {},
+): F {
+  const wrapped = ((...args: Parameters<F>) => work(...args)) as F
+  Object.defineProperty(wrapped, RETRY, { value: options, enumerable: false })
+  return wrapped
+}
+
+/**
+ * Copy retry options from a node's work function onto the node
+ */
+function withRetryOptions(node: StepNode): StepNode {
+  const options = (node.work as { [RETRY]?: RetryOptions } | undefined)?.[RETRY]
+  if (options) {
+    node.retry = options
+  }
+  return node
+}
+
 /**
  * Flatten the tree for sequential execution
  *
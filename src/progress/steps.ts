@@ -47,17 +47,31 @@
  * - Yield an **object** `{ current, total }` to update progress on current sub-step
  */
 
-import { MultiProgress, type TaskHandle } from "../cli/multi-progress.js"
+import {
+  MultiProgress,
+  type MultiProgressMode,
+  type TaskHandle,
+} from "../cli/multi-progress.js"
+import type { ProgressReporter } from "../types.js"
 import { stepsDeclarative, type StepsRunner } from "./declarative.js"
 import type { StepsDef } from "./step-node.js"
 
 // Re-export step() context helper
 export { step } from "./als-context.js"
 
+// Re-export parallel() and retry() step markers
+export { parallel, retry } from "./step-node.js"
+
 // Re-export types from declarative
 export type { StepsRunner } from "./declarative.js"
-export type { StepsDef, StepNode } from "./step-node.js"
+export type {
+  StepsDef,
+  StepNode,
+  ParallelOptions,
+  RetryOptions,
+} from "./step-node.js"
 export type { StepContext } from "./als-context.js"
+export type { SummaryOptions } from "./summary.js"
 
 // Node.js globals for yielding to event loop
 declare function setImmediate(callback: (value?: unknown) => void): unknown
@@ -121,6 +135,14 @@ interface StepDef<T = unknown> {
 export interface ExecuteOptions {
   /** Clear progress display after completion (default: false) */
   clear?: boolean
+  /** Print console output above the progress display (default: false) */
+  patchConsole?: boolean
+  /** Cancel remaining steps; execute() rejects with the abort reason */
+  signal?: AbortSignal
+  /** Display mode (default: "auto"; "silent" pairs with a reporter) */
+  mode?: MultiProgressMode
+  /** Receives structured events for every step transition */
+  reporter?: ProgressReporter
 }
 
 export interface StepBuilder {
@@ -210,7 +232,11 @@ function createFluentBuilder(): StepBuilder {
     },
 
     async execute(options?: ExecuteOptions): Promise<Record<string, unknown>> {
-      const multi = new MultiProgress()
+      const multi = new MultiProgress(process.stdout, {
+        patchConsole: options?.patchConsole,
+        mode: options?.mode,
+        reporter: options?.reporter,
+      })
       const handles = new Map<string, TaskHandle>()
       const results: Record<string, unknown> = {}
 
@@ -227,6 +253,7 @@ function createFluentBuilder(): StepBuilder {
 
           // Yield to event loop before potentially blocking work
           await new Promise((r) => setImmediate(r))
+          options?.signal?.throwIfAborted()
 
           const result = step.work(createNoopStepController())
 
@@ -256,6 +283,13 @@ function createFluentBuilder(): StepBuilder {
             handle.complete()
           }
         }
+      } catch (error) {
+        if (options?.signal?.aborted) {
+          for (const handle of handles.values()) {
+            if (handle.status === "pending") handle.skip()
+          }
+        }
+        throw error
       } finally {
         multi.stop(options?.clear ?? false)
       }
@@ -320,6 +354,7 @@ function processYield(
     // Object = progress update on current sub-step
     const { current, total } = value as ProgressUpdate
     if (state.currentHandle && total && total > 0) {
+      state.currentHandle.update(current ?? 0, total)
       state.currentHandle.setTitle(
         `${state.currentLabel} (${current ?? 0}/${total})`,
       )
@@ -0,0 +1,117 @@
+/**
+ * End-of-run timing summary for declarative steps
+ */
+
+import { stringWidth } from "../cli/text.js"
+import { formatDuration } from "../utils/format.js"
+import { colorize } from "../utils/theme.js"
+import type { StepNode } from "./step-node.js"
+
+/**
+ * Options for the timing summary printed after a run
+ */
+export interface SummaryOptions {
+  /** Number of slowest steps to list (default: 5) */
+  limit?: number
+}
+
+/** Default number of slowest steps listed */
+const DEFAULT_SUMMARY_LIMIT = 5
+
+/**
+ * Format a timing summary for a finished run
+ *
+ * Lists the slowest leaf steps ranked by duration, then every group with
+ * its share of the total wall time. Steps that never ran are left out.
+ * Shares of parallel steps can add up to more than 100%.
+ *
+ * @param nodes - Root step nodes
+ * @param timings - Measured duration (ms) per node that ran
+ * @param total - Wall time of the whole run (ms)
+ *
+ * @example
+ * ```ts
+ * formatTimingSummary(nodes, timings, 12400)
+ * // Finished in 12.4s
+ * //
+ * // Slowest steps
+ * //   1. Parse          5.1s  41%
+ * //   2. Load modules   3.2s  26%
+ * //
+ * // Groups
+ * //   Load repo         6.1s  49%
+ * ```
+ */
+export function formatTimingSummary(
+  nodes: StepNode[],
+  timings: ReadonlyMap<StepNode, number>,
+  total: number,
+  options: SummaryOptions = {},
+): string {
+  const leaves: StepNode[] = []
+  const groups: StepNode[] = []
+  collectTimed(nodes, timings, leaves, groups)
+
+  const slowest = leaves
+    .sort((a, b) => timings.get(b)! - timings.get(a)!)
+    .slice(0, options.limit ?? DEFAULT_SUMMARY_LIMIT)
+
+  const lines = [colorize(`Finished in ${formatDuration(total)}`, "bold")]
+
+  if (slowest.length > 0) {
+    const labels = slowest.map((node, i) => `${i + 1}. ${node.label}`)
+    lines.push("", colorize("Slowest steps", "bold"))
+    lines.push(...formatRows(slowest, labels, timings, total))
+  }
+
+  if (groups.length > 0) {
+    const minIndent = Math.min(...groups.map((node) => node.indent))
+    const labels = groups.map(
+      (node) => `${"  ".repeat(node.indent - minIndent)}${node.label}`,
+    )
+    lines.push("", colorize("Groups", "bold"))
+    lines.push(...formatRows(groups, labels, timings, total))
+  }
+
+  return lines.join("\n")
+}
+
+/**
+ * Collect nodes that have a timing, in declaration order
+ */
+function collectTimed(
+  nodes: StepNode[],
+  timings: ReadonlyMap<StepNode, number>,
+  leaves: StepNode[],
+  groups: StepNode[],
+): void {
+  for (const node of nodes) {
+    if (!timings.has(node)) continue
+    if (node.work) {
+      leaves.push(node)
+    } else {
+      groups.push(node)
+      collectTimed(node.children ?? [], timings, leaves, groups)
+    }
+  }
+}
+
+/**
+ * Align labels, durations and shares into columns
+ */
+function formatRows(
+  nodes: StepNode[],
+  labels: string[],
+  timings: ReadonlyMap<StepNode, number>,
+  total: number,
+): string[] {
+  const durations = nodes.map((node) => formatDuration(timings.get(node)!))
+  const labelWidth = Math.max(...labels.map(stringWidth))
+  const durationWidth = Math.max(...durations.map((d) => d.length))
+
+  return nodes.map((node, i) => {
+    const share = total > 0 ? Math.round((timings.get(node)! / total) * 100) : 0
+    const label = labels[i]! + " ".repeat(labelWidth - stringWidth(labels[i]!))
+    return `  ${label}  ${durations[i]!.padStart(durationWidth)}  ${colorize(`${share}%`.padStart(4), "dim")}`
+  })
+}
@@ -2,13 +2,26 @@
  * React ProgressBar component for inkx/Ink TUI apps
  */
 
-import React, { useState, useEffect, useRef } from "react"
-import type { ProgressBarProps } from "../types.js"
+import React, { useState, useEffect, useMemo, useRef } from "react"
+import type { ProgressBarProps, StackedProgressBarProps } from "../types.js"
 import {
   getETA,
+  resolveETAStrategy,
   DEFAULT_ETA_BUFFER_SIZE,
   type ETASample,
 } from "../utils/eta.js"
+import {
+  renderBar,
+  renderIndeterminateBar,
+  renderStackedBar,
+  resolveSegments,
+} from "../utils/bar.js"
+import { formatAmount, formatRate } from "../utils/format.js"
+import { useTheme } from "./theme.js"
+import { getAnimationClock } from "../utils/clock.js"
+
+/** Frame interval for the indeterminate animation (ms) */
+const INDETERMINATE_INTERVAL = 80
 
 /**
  * Progress bar component for React TUI apps
@@ -22,11 +35,17 @@ import {
  *     <ProgressBar
  *       value={current}
  *       total={total}
+ *       unit="bytes"
  *       showPercentage
+ *       showValue
+ *       showSpeed
  *       showETA
  *     />
  *   );
  * }
+ *
+ * // Total unknown: a segment bounces until `total` is passed
+ * <ProgressBar value={scanned} label="Scanning" />
  * ```
  */
 export function ProgressBar({
@@ -35,34 +54,55 @@ export function ProgressBar({
   width = 40,
   showPercentage = true,
   showETA = false,
+  showValue = false,
+  showSpeed = false,
+  unit = "count",
+  byteUnits = "si",
+  etaStrategy = "linear",
   label,
-  color = "cyan",
+  color,
+  style,
 }: ProgressBarProps): React.ReactElement {
+  const theme = useTheme()
+  color ??= theme.colors.bar
+  style ??= theme.bar
   // ETA calculation state
   const [eta, setEta] = useState<string>("--:--")
+  const [speed, setSpeed] = useState<number | null>(null)
   const etaBuffer = useRef<ETASample[]>([])
+  const strategy = useMemo(() => resolveETAStrategy(etaStrategy), [etaStrategy])
+  const [frameIndex, setFrameIndex] = useState(0)
+  const indeterminate = total === undefined
+
+  // Animate the bouncing segment while the total is unknown
+  useEffect(() => {
+    if (!indeterminate) return
+
+    const clock = getAnimationClock()
+    return clock.subscribe(INDETERMINATE_INTERVAL, () => {
+      setFrameIndex(Math.floor(clock.now() / INDETERMINATE_INTERVAL))
+    })
+  }, [indeterminate])
 
   // Update ETA buffer when value changes
   useEffect(() => {
     const now = Date.now()
     etaBuffer.current.push({ time: now, value })
 
-    if (etaBuffer.current.length > DEFAULT_ETA_BUFFER_SIZE) {
+    if (
+      etaBuffer.current.length >
+      (strategy.bufferSize ?? DEFAULT_ETA_BUFFER_SIZE)
+    ) {
       etaBuffer.current.shift()
     }
 
     // Calculate ETA using shared utility
-    const result = getETA(etaBuffer.current, value, total)
-    setEta(result.formatted)
-  }, [value, total])
-
-  const percent = total > 0 ? value / total : 0
-  const percentDisplay = `${Math.round(percent * 100)}%`
-
-  const filledWidth = Math.round(width * percent)
-  const emptyWidth = width - filledWidth
-
-  const bar = "█".repeat(filledWidth) + "░".repeat(emptyWidth)
+    if (total !== undefined) {
+      const result = getETA(etaBuffer.current, value, total, strategy)
+      setEta(result.formatted)
+    }
+    setSpeed(strategy.estimate(etaBuffer.current)?.rate ?? null)
+  }, [value, total, strategy])
 
   // Build the display parts
   const parts: string[] = []
@@ -71,12 +111,41 @@ export function ProgressBar({
     parts.push(label)
   }
 
-  parts.push(`[${bar}]`)
+  if (total === undefined) {
+    // Only the count and throughput are known
+    parts.push(`[${renderIndeterminateBar(frameIndex, width, style)}]`)
+    parts.push(formatAmount(value, unit, byteUnits))
+    if (showSpeed) {
+      parts.push(formatRate(speed, unit, byteUnits))
+    }
+
+    return (
+      <span data-progressx-bar data-color={color} data-indeterminate>
+        {parts.join(" ")}
+      </span>
+    )
+  }
+
+  const percent = total > 0 ? value / total : 0
+  const percentDisplay = `${Math.round(percent * 100)}%`
+
+  const { filled, empty } = renderBar(percent, width, style)
+  parts.push(`[${filled}${empty}]`)
 
   if (showPercentage) {
     parts.push(percentDisplay.padStart(4))
   }
 
+  if (showValue) {
+    parts.push(
+      `${formatAmount(value, unit, byteUnits)}/${formatAmount(total, unit, byteUnits)}`,
+    )
+  }
+
+  if (showSpeed) {
+    parts.push(formatRate(speed, unit, byteUnits))
+  }
+
   if (showETA) {
     parts.push(`ETA: ${eta}`)
   }
@@ -88,6 +157,70 @@ export function ProgressBar({
   )
 }
 
+/**
+ * Progress bar with one colored segment per counter
+ *
+ * @example
+ * ```tsx
+ * <StackedProgressBar
+ *   label="Sync"
+ *   total={120}
+ *   segments={[
+ *     { name: "succeeded", value: 90 },
+ *     { name: "failed", value: 4 },
+ *     { name: "skipped", value: 6 },
+ *   ]}
+ * />
+ * // Sync [green, red and yellow cells░░░░]  83% 90 succeeded · 4 failed · 6 skipped
+ * ```
+ */
+export function StackedProgressBar({
+  segments,
+  total,
+  width = 40,
+  showPercentage = true,
+  showCounts = true,
+  label,
+  style,
+}: StackedProgressBarProps): React.ReactElement {
+  const theme = useTheme()
+  style ??= theme.bar
+  const resolved = resolveSegments(segments)
+  const values = segments.map((segment) => segment.value)
+  const sum = values.reduce((a, b) => a + b, 0)
+  const percent = total > 0 ? Math.min(1, sum / total) : 0
+  const { segments: cells, empty } = renderStackedBar(
+    values,
+    total,
+    width,
+    style,
+  )
+
+  // Text after the bar
+  const parts: string[] = []
+  if (showPercentage) {
+    parts.push(`${Math.round(percent * 100)}%`.padStart(4))
+  }
+  if (showCounts) {
+    parts.push(
+      resolved.map(({ name }, i) => `${values[i]} ${name}`).join(" · "),
+    )
+  }
+
+  return (
+    <span data-progressx-bar data-percent={percent}>
+      {label ? `${label} [` : "["}
+      {cells.map((part, i) => (
+        <span key={resolved[i]!.name} data-color={resolved[i]!.color}>
+          {part}
+        </span>
+      ))}
+      {`${empty}]`}
+      {parts.length > 0 ? ` ${parts.join(" ")}` : ""}
+    </span>
+  )
+}
+
 /**
  * Hook for progress bar state management
  *
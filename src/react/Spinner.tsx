@@ -3,8 +3,10 @@
  */
 
 import React, { useState, useEffect } from "react"
-import type { SpinnerProps, SpinnerStyle } from "../types.js"
-import { SPINNER_FRAMES, SPINNER_INTERVALS } from "../cli/spinner.js"
+import type { SpinnerDefinition, SpinnerProps, SpinnerStyle } from "../types.js"
+import { resolveSpinner } from "../cli/spinner.js"
+import { useTheme } from "./theme.js"
+import { frameAt, getAnimationClock } from "../utils/clock.js"
 
 /**
  * Animated spinner component for React TUI apps
@@ -19,26 +21,19 @@ import { SPINNER_FRAMES, SPINNER_INTERVALS } from "../cli/spinner.js"
  *
  * // With style
  * <Spinner label="Processing..." style="arc" color="yellow" />
+ *
+ * // Custom frames
+ * <Spinner label="Syncing" style={{ frames: ["⊶", "⊷"], interval: 250 }} />
  * ```
  */
 export function Spinner({
   label,
-  style = "dots",
-  color = "cyan",
+  style,
+  color,
 }: SpinnerProps): React.ReactElement {
-  const [frameIndex, setFrameIndex] = useState(0)
-  const frames = SPINNER_FRAMES[style]
-  const interval = SPINNER_INTERVALS[style]
-
-  useEffect(() => {
-    const timer = setInterval(() => {
-      setFrameIndex((i) => (i + 1) % frames.length)
-    }, interval)
-
-    return () => clearInterval(timer)
-  }, [frames.length, interval])
-
-  const frame = frames[frameIndex]
+  const theme = useTheme()
+  color ??= theme.colors.running
+  const frame = useSpinnerFrame(style)
 
   // Note: In a real inkx app, you'd use <Text color={color}> etc.
   // This is a generic React component that can be styled by the consumer
@@ -61,18 +56,23 @@ export function Spinner({
  * }
  * ```
  */
-export function useSpinnerFrame(style: SpinnerStyle = "dots"): string {
-  const [frameIndex, setFrameIndex] = useState(0)
-  const frames = SPINNER_FRAMES[style]
-  const interval = SPINNER_INTERVALS[style]
+export function useSpinnerFrame(
+  style?: SpinnerStyle | SpinnerDefinition,
+): string {
+  const theme = useTheme()
+  const { frames, interval } = resolveSpinner(style ?? theme.spinner)
+  const [frameIndex, setFrameIndex] = useState(() =>
+    frameAt(getAnimationClock().now(), frames.length, interval),
+  )
 
+  // Follow the shared clock so every spinner of a style shows the same frame
   useEffect(() => {
-    const timer = setInterval(() => {
-      setFrameIndex((i) => (i + 1) % frames.length)
-    }, interval)
-
-    return () => clearInterval(timer)
+    const clock = getAnimationClock()
+    return clock.subscribe(interval, () => {
+      setFrameIndex(frameAt(clock.now(), frames.length, interval))
+    })
   }, [frames.length, interval])
 
-  return frames[frameIndex]!
+  // The style may have changed to one with fewer frames
+  return frames[frameIndex % frames.length]!
 }
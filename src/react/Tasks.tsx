@@ -5,24 +5,7 @@
 import React from "react"
 import type { TaskProps, TaskStatus } from "../types.js"
 import { useSpinnerFrame } from "./Spinner.js"
-
-/** Status icons for tasks */
-const STATUS_ICONS: Record<TaskStatus, string> = {
-  pending: "○",
-  running: "", // Will use spinner
-  completed: "✔",
-  failed: "✖",
-  skipped: "⊘",
-}
-
-/** Status colors */
-const STATUS_COLORS: Record<TaskStatus, string> = {
-  pending: "gray",
-  running: "cyan",
-  completed: "green",
-  failed: "red",
-  skipped: "yellow",
-}
+import { useTheme } from "./theme.js"
 
 /**
  * Single task component
@@ -39,9 +22,10 @@ export function Task({
   status,
   children,
 }: TaskProps): React.ReactElement {
-  const spinnerFrame = useSpinnerFrame("dots")
-  const icon = status === "running" ? spinnerFrame : STATUS_ICONS[status]
-  const color = STATUS_COLORS[status]
+  const theme = useTheme()
+  const spinnerFrame = useSpinnerFrame(theme.spinner)
+  const icon = status === "running" ? spinnerFrame : theme.icons[status]
+  const color = theme.colors[status]
 
   return (
     <div data-progressx-task data-status={status} data-color={color}>
@@ -25,6 +25,11 @@
  */
 
 export { Spinner, useSpinnerFrame } from "./Spinner.js"
-export { ProgressBar, useProgressBar } from "./ProgressBar.js"
+export {
+  ProgressBar,
+  StackedProgressBar,
+  useProgressBar,
+} from "./ProgressBar.js"
 export { Task, Tasks, useTasks } from "./Tasks.js"
 export { ProgressProvider, useProgress, ProgressIndicator } from "./context.js"
+export { ThemeProvider, useTheme } from "./theme.js"
@@ -0,0 +1,49 @@
+/**
+ * React theme context - per-subtree theme overrides
+ */
+
+import React, { createContext, useContext, useMemo } from "react"
+import type { Theme, ThemeOverrides } from "../types.js"
+import { getTheme, mergeTheme } from "../utils/theme.js"
+
+const ThemeContext = createContext<Theme | null>(null)
+
+/**
+ * Theme provider for a component subtree
+ *
+ * Overrides are merged over the enclosing provider's theme, or the global
+ * theme (`setTheme()`) at the top.
+ *
+ * @example
+ * ```tsx
+ * <ThemeProvider theme={{ icons: { completed: "✓" }, colors: { running: "magenta" } }}>
+ *   <Tasks>
+ *     <Task title="Build" status="completed" />
+ *   </Tasks>
+ * </ThemeProvider>
+ * ```
+ */
+export function ThemeProvider({
+  theme,
+  children,
+}: {
+  theme: ThemeOverrides
+  children: React.ReactNode
+}): React.ReactElement {
+  const parent = useContext(ThemeContext)
+  const value = useMemo(
+    () => mergeTheme(parent ?? getTheme(), theme),
+    [parent, theme],
+  )
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>
+}
+
+/**
+ * Get the theme for the current component
+ *
+ * Returns the nearest ThemeProvider's theme, or the global theme.
+ */
+export function useTheme(): Theme {
+  return useContext(ThemeContext) ?? getTheme()
+}
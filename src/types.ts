@@ -2,6 +2,9 @@
  * Core types for inkx-ui progress components
  */
 
+import type { ETAStrategy, ETAStrategyName } from "./utils/eta.js"
+import type { AnimationClock } from "./utils/clock.js"
+
 /** Progress info passed to callbacks (legacy, use StepProgress for steps()) */
 export interface ProgressInfo {
   phase?: string
@@ -43,8 +46,72 @@ export type ProgressGenerator<T = void> = Generator<
   unknown
 >
 
-/** Spinner animation styles */
-export type SpinnerStyle = "dots" | "line" | "arc" | "bounce" | "pulse"
+/** Built-in spinner animation styles */
+export type BuiltinSpinnerStyle =
+  | "dots"
+  | "line"
+  | "arc"
+  | "bounce"
+  | "pulse"
+  | "clock"
+  | "moon"
+  | "growVertical"
+  | "growHorizontal"
+  | "simpleDots"
+
+/** Spinner animation style: a built-in name or one added by registerSpinner() */
+export type SpinnerStyle = BuiltinSpinnerStyle | (string & {})
+
+/** Frames and timing of a spinner (the cli-spinners JSON shape) */
+export interface SpinnerDefinition {
+  /** Frames shown in turn */
+  frames: string[]
+  /** Time per frame (ms) */
+  interval: number
+}
+
+/** Built-in progress bar styles */
+export type BarStyleName = "block" | "smooth" | "braille" | "ascii"
+
+/** Glyphs used to draw a progress bar (each one terminal column wide) */
+export interface BarStyle {
+  /** Glyph for filled cells */
+  fill: string
+  /** Glyph for empty cells */
+  empty: string
+  /** Glyph for the leading edge of the fill, e.g. ">" in "===>  " */
+  head?: string
+  /**
+   * Partially filled cells from least to most filled (e.g. eighth blocks);
+   * the fill advances in `partials.length + 1` steps per cell
+   */
+  partials?: string[]
+}
+
+/** Colors for stacked bar segments (chalk and Ink color names) */
+export type SegmentColor =
+  | "green"
+  | "red"
+  | "yellow"
+  | "blue"
+  | "magenta"
+  | "cyan"
+  | "white"
+  | "gray"
+
+/** A named counter drawn as one colored part of a stacked bar */
+export interface BarSegment {
+  /** Counter name, also its format token (`:failed`, `:failedPercent`) */
+  name: string
+  /** Segment color (default: green, red, yellow, blue, magenta, cyan in turn) */
+  color?: SegmentColor
+}
+
+/** What a progress value counts: items or bytes */
+export type ProgressUnit = "count" | "bytes"
+
+/** Byte prefixes: SI (kB, MB - powers of 1000) or IEC (KiB, MiB - powers of 1024) */
+export type ByteUnits = "si" | "iec"
 
 /** Task status for multi-task display */
 export type TaskStatus =
@@ -54,33 +121,161 @@ export type TaskStatus =
   | "failed"
   | "skipped"
 
+/**
+ * Shared look of icons, colors, bars, spinners and prompts
+ *
+ * Colors are chalk/Ink color names ("green", "gray", "magentaBright").
+ */
+export interface Theme {
+  /** Status icons (running tasks show the spinner instead) */
+  icons: {
+    pending: string
+    completed: string
+    failed: string
+    skipped: string
+    warning: string
+    info: string
+    /** Marks a task start in plain (non-TTY) output */
+    started: string
+  }
+  /** Colors of statuses, bars and prompt highlights */
+  colors: {
+    pending: string
+    running: string
+    completed: string
+    failed: string
+    skipped: string
+    warning: string
+    info: string
+    /** Bar fill */
+    bar: string
+    /** Empty bar cells */
+    barEmpty: string
+    /** Prompt marker and highlighted option */
+    accent: string
+  }
+  /** Default bar style */
+  bar: BarStyleName | BarStyle
+  /** Default spinner style */
+  spinner: SpinnerStyle | SpinnerDefinition
+  /** Prompt chrome for withSelect, withTextInput and Select */
+  prompt: {
+    /** Before an open question ("?") */
+    question: string
+    /** Before an answered question ("✔") */
+    answered: string
+    /** Highlighted option (">") */
+    pointer: string
+    /** More options above or below ("...") */
+    more: string
+  }
+}
+
+/** Partial theme; each section is merged over the base theme */
+export interface ThemeOverrides {
+  icons?: Partial<Theme["icons"]>
+  colors?: Partial<Theme["colors"]>
+  bar?: Theme["bar"]
+  spinner?: Theme["spinner"]
+  prompt?: Partial<Theme["prompt"]>
+}
+
+/** Fields shared by all progress events */
+interface ProgressEventBase {
+  /** Event time (ms since epoch) */
+  time: number
+}
+
+/** Fields shared by task events */
+interface TaskEventBase extends ProgressEventBase {
+  /** Task ID (stable for the lifetime of the task) */
+  id: string
+  /** Task title at the time of the event */
+  title: string
+  /** ID of the enclosing task (for sub-steps and grouped steps) */
+  parent?: string
+}
+
+/**
+ * Machine-readable progress event, emitted by MultiProgress (and so by
+ * steps()) to a ProgressReporter
+ */
+export type ProgressEvent =
+  | (TaskEventBase & { type: "start" })
+  | (TaskEventBase & {
+      type: "progress"
+      current: number
+      total?: number
+      /** Segment counters of a stacked bar task */
+      counts?: Record<string, number>
+    })
+  | (TaskEventBase & { type: "complete"; duration?: number })
+  | (TaskEventBase & { type: "fail"; duration?: number; error?: string })
+  | (TaskEventBase & { type: "skip" })
+  | (ProgressEventBase & {
+      type: "finish"
+      duration: number
+      completed: number
+      failed: number
+      skipped: number
+    })
+
+/** Receives progress events (e.g. to write NDJSON logs) */
+export interface ProgressReporter {
+  /** Called once per event, in order */
+  event(event: ProgressEvent): void
+  /** Called after the finish event when the display stops (release files) */
+  stop?(): void
+}
+
 /** Options for Spinner class */
 export interface SpinnerOptions {
   /** Initial text to display */
   text?: string
-  /** Animation style */
-  style?: SpinnerStyle
-  /** Spinner color (chalk color name) */
+  /** Animation style or frames (default: the theme's spinner) */
+  style?: SpinnerStyle | SpinnerDefinition
+  /** Spinner color (chalk color name, default: the theme's running color) */
   color?: string
   /** Output stream (default: process.stdout) */
   stream?: NodeJS.WriteStream
   /** Hide cursor during spinner (default: true) */
   hideCursor?: boolean
-  /** Animation interval in ms (default: 80) */
+  /** Animation interval in ms (default: the style's interval) */
   interval?: number
+  /** Route console.log/info/warn/error through `log()` while spinning (default: false) */
+  patchConsole?: boolean
+  /** Animation clock (default: the shared clock) */
+  clock?: AnimationClock
+  /** Theme overrides for this instance (default: the global theme) */
+  theme?: ThemeOverrides
+  /**
+   * Print start, text changes and the result once as sentences instead of
+   * animating (default: accessible mode, see `setAccessibleMode()`)
+   */
+  accessible?: boolean
 }
 
 /** Options for ProgressBar class */
 export interface ProgressBarOptions {
-  /** Total value for progress calculation */
+  /**
+   * Total value for progress calculation. Leave out when unknown: the bar
+   * runs indeterminate until a total is given to start() or setTotal().
+   */
   total?: number
-  /** Format string with placeholders: :bar :percent :current :total :eta :rate :phase */
+  /**
+   * Format string with placeholders: :bar :percent :current :total :eta
+   * :elapsed :rate :phase, and for byte counts :bytes :totalBytes :speed.
+   * Tokens take a width and alignment (`:percent{4,right}`); `\:` is a
+   * literal colon.
+   */
   format?: string
   /** Width of the progress bar in characters (default: 40) */
   width?: number
-  /** Character for completed portion (default: "█") */
+  /** Bar style: a built-in name or custom glyphs (default: the theme's bar) */
+  style?: BarStyleName | BarStyle
+  /** Character for completed portion (overrides the style's fill) */
   complete?: string
-  /** Character for incomplete portion (default: "░") */
+  /** Character for incomplete portion (overrides the style's empty glyph) */
   incomplete?: string
   /** Show percentage (default: true) */
   showPercentage?: boolean
@@ -92,12 +287,66 @@ export interface ProgressBarOptions {
   hideCursor?: boolean
   /** Phase names for multi-phase progress */
   phases?: Record<string, string>
+  /** Prefixes for :bytes, :totalBytes and :speed (default: "si") */
+  byteUnits?: ByteUnits
+  /** Rate estimator for :eta and :speed (default: "linear") */
+  etaStrategy?: ETAStrategyName | ETAStrategy
+  /**
+   * Format while the total is unknown; only :bar :current :elapsed :rate
+   * (and :bytes :speed :phase) are meaningful
+   * (default: ":bar :current | :elapsed | :rate/s")
+   */
+  indeterminateFormat?: string
+  /**
+   * Custom tokens computed on each render, e.g.
+   * `{ files: ({ current }) => `${current} files` }` for `:files`
+   */
+  tokens?: Record<string, (context: ProgressBarTokenContext) => string | number>
+  /**
+   * Minimum ms between redraws from update()/increment() (default: 16,
+   * about 60 per second); skipped values are drawn at the end of the
+   * interval, so the final value always shows. 0 redraws on every update
+   */
+  throttle?: number
+  /**
+   * Draw a stacked bar of named counters (e.g. `["succeeded", "failed"]`);
+   * update() then takes `{ succeeded: 12, failed: 1 }` and each segment
+   * adds `:name` and `:namePercent` tokens
+   */
+  segments?: (string | BarSegment)[]
+  /** Clock for the indeterminate animation (default: the shared clock) */
+  clock?: AnimationClock
+  /** Theme overrides for this instance (default: the global theme) */
+  theme?: ThemeOverrides
+  /**
+   * Print start, phases, every 25% and the result once as sentences instead
+   * of redrawing (default: accessible mode, see `setAccessibleMode()`)
+   */
+  accessible?: boolean
+  /**
+   * Mirror progress in the terminal's tab or taskbar with OSC 9;4
+   * (indeterminate while there is no total; default: false)
+   */
+  terminalProgress?: boolean
+}
+
+/** Bar state passed to custom format tokens */
+export interface ProgressBarTokenContext {
+  current: number
+  /** Undefined while indeterminate */
+  total: number | undefined
+  /** Progress from 0 to 1 (0 while indeterminate) */
+  ratio: number
+  /** Seconds since start() */
+  elapsed: number
+  /** Current phase key */
+  phase: string | null
 }
 
 /** Options for withSpinner wrapper */
 export interface WithSpinnerOptions {
-  /** Spinner style */
-  style?: SpinnerStyle
+  /** Spinner style or frames */
+  style?: SpinnerStyle | SpinnerDefinition
   /** Clear the spinner output on completion */
   clearOnComplete?: boolean
   /** Color for the spinner */
@@ -108,8 +357,10 @@ export interface WithSpinnerOptions {
 export interface WithProgressOptions {
   /** Map of phase keys to display names */
   phases?: Record<string, string>
-  /** Format string for progress bar */
+  /** Format string for progress bar (same syntax as ProgressBar) */
   format?: string
+  /** Custom format tokens (same as ProgressBar `tokens`) */
+  tokens?: ProgressBarOptions["tokens"]
   /** Clear output on completion */
   clearOnComplete?: boolean
   /** Show initial loading message after this many ms (default: 1000). Set to 0 to show immediately. */
@@ -132,8 +383,8 @@ export interface TaskState {
 export interface SpinnerProps {
   /** Label text to display */
   label?: string
-  /** Animation style */
-  style?: SpinnerStyle
+  /** Animation style or frames */
+  style?: SpinnerStyle | SpinnerDefinition
   /** Spinner color */
   color?: string
 }
@@ -142,18 +393,51 @@ export interface SpinnerProps {
 export interface ProgressBarProps {
   /** Current value */
   value: number
-  /** Total value */
-  total: number
+  /** Total value (leave out when unknown to show an indeterminate bar) */
+  total?: number
   /** Width in characters */
   width?: number
   /** Show percentage */
   showPercentage?: boolean
   /** Show ETA */
   showETA?: boolean
+  /** Show current/total in the value's unit, e.g. "12.4 MB/40.0 MB" */
+  showValue?: boolean
+  /** Show smoothed throughput, e.g. "3.1 MB/s" */
+  showSpeed?: boolean
+  /** What value and total count (default: "count") */
+  unit?: ProgressUnit
+  /** Byte prefixes when unit is "bytes" (default: "si") */
+  byteUnits?: ByteUnits
+  /** Rate estimator for the ETA and speed (default: "linear") */
+  etaStrategy?: ETAStrategyName | ETAStrategy
   /** Label text */
   label?: string
   /** Color for completed portion */
   color?: string
+  /** Bar style: a built-in name or custom glyphs (default: the theme's bar) */
+  style?: BarStyleName | BarStyle
+}
+
+/** Props for React StackedProgressBar component */
+export interface StackedProgressBarProps {
+  /** Counters in drawing order, e.g. `{ name: "failed", value: 2 }` */
+  segments: (BarSegment & { value: number })[]
+  /** Total value */
+  total: number
+  /** Width in characters */
+  width?: number
+  /** Show percentage of all segments together */
+  showPercentage?: boolean
+  /** Show each segment's count after the bar (default: true) */
+  showCounts?: boolean
+  /** Label text */
+  label?: string
+  /**
+   * Bar style: only `fill` and `empty` glyphs are used (default: the
+   * theme's bar)
+   */
+  style?: BarStyleName | BarStyle
 }
 
 /** Props for React Task component */
@@ -204,6 +488,13 @@ export interface TextInputOptions {
   stream?: NodeJS.WriteStream
   /** Input stream (default: process.stdin) */
   inputStream?: NodeJS.ReadStream
+  /** Theme overrides for this instance (default: the global theme) */
+  theme?: ThemeOverrides
+  /**
+   * Ask once and read a typed line instead of redrawing the input
+   * (default: accessible mode, see `setAccessibleMode()`)
+   */
+  accessible?: boolean
 }
 
 /** Column definition for Table component */
@@ -258,4 +549,16 @@ export interface WithSelectOptions {
   initial?: number
   /** Maximum number of visible options (default: 10) */
   maxVisible?: number
+  /** Output stream (default: process.stdout) */
+  stream?: NodeJS.WriteStream
+  /** Input stream (default: process.stdin) */
+  inputStream?: NodeJS.ReadStream
+  /** Theme overrides for this instance (default: the global theme) */
+  theme?: ThemeOverrides
+  /**
+   * List numbered options once and read the chosen number instead of
+   * redrawing a highlighted list (default: accessible mode, see
+   * `setAccessibleMode()`)
+   */
+  accessible?: boolean
 }
@@ -0,0 +1,115 @@
+/**
+ * Accessibility - color and motion preferences, and the sentences announced
+ * instead of animation
+ *
+ * Redrawn lines are read out again by screen readers on every frame. With
+ * motion off, components print each state change once as a plain sentence
+ * ("Started: Parse markdown", "Completed in 1.2s: Parse markdown") and
+ * prompts ask a question and read a typed line.
+ */
+
+import { formatDuration } from "./format.js"
+
+/** What components may do on the terminal */
+export interface Accessibility {
+  /** ANSI colors (off with `NO_COLOR` or `TERM=dumb`) */
+  color: boolean
+  /**
+   * Animation and in-place redraws (off with `TERM=dumb` or
+   * `REDUCED_MOTION`); without it state changes are announced as sentences
+   */
+  motion: boolean
+}
+
+/** State changes announced in accessible mode */
+export type AnnouncementStatus =
+  "started" | "completed" | "failed" | "skipped" | "warning" | "info"
+
+/** Sentence openers per announced status */
+const ANNOUNCEMENT_WORDS: Record<AnnouncementStatus, string> = {
+  started: "Started",
+  completed: "Completed",
+  failed: "Failed",
+  skipped: "Skipped",
+  warning: "Warning",
+  info: "Info",
+}
+
+let explicit: Accessibility | undefined
+let detected: Accessibility | undefined
+
+/**
+ * Read color and motion preferences from the environment
+ *
+ * `NO_COLOR` (any non-empty value) turns color off unless `FORCE_COLOR`
+ * turns it on, `TERM=dumb` turns color and motion off, and `REDUCED_MOTION`
+ * (anything but empty, `0` or `false`) turns motion off.
+ */
+export function detectAccessibility(
+  env: NodeJS.ProcessEnv = process.env,
+): Accessibility {
+  const dumb = env.TERM === "dumb"
+  const reducedMotion = !["", "0", "false"].includes(env.REDUCED_MOTION ?? "")
+  const forced = env.FORCE_COLOR
+  return {
+    color:
+      forced !== undefined
+        ? forced !== "0" && forced !== "false"
+        : !dumb && !env.NO_COLOR,
+    motion: !dumb && !reducedMotion,
+  }
+}
+
+/**
+ * Turn accessible mode on or off for every component
+ *
+ * On disables color and animation; `undefined` goes back to the
+ * environment's preferences. Components read the setting when they are
+ * created.
+ *
+ * @example
+ * ```ts
+ * if (argv.includes("--accessible")) setAccessibleMode(true)
+ * ```
+ */
+export function setAccessibleMode(enabled: boolean | undefined): void {
+  explicit =
+    enabled === undefined ? undefined : { color: !enabled, motion: !enabled }
+  detected = undefined
+}
+
+/**
+ * Current color and motion settings
+ */
+export function getAccessibility(): Accessibility {
+  return explicit ?? (detected ??= detectAccessibility())
+}
+
+/**
+ * True when components should announce instead of animating
+ */
+export function isAccessibleMode(): boolean {
+  return !getAccessibility().motion
+}
+
+/**
+ * Sentence announcing a state change
+ *
+ * @example
+ * ```ts
+ * formatAnnouncement("started", "Parse markdown")         // "Started: Parse markdown"
+ * formatAnnouncement("completed", "Parse markdown", 1234) // "Completed in 1.2s: Parse markdown"
+ * formatAnnouncement("completed", undefined, 1234)        // "Completed in 1.2s"
+ * ```
+ */
+export function formatAnnouncement(
+  status: AnnouncementStatus,
+  text?: string,
+  duration?: number,
+): string {
+  let sentence = ANNOUNCEMENT_WORDS[status]
+  if (duration !== undefined) {
+    sentence += ` in ${formatDuration(duration)}`
+  }
+  return text ? `${sentence}: ${text}` : sentence
+}
@@ -0,0 +1,223 @@
+/**
+ * Progress bar drawing shared by the CLI, React and MultiProgress bars
+ */
+
+import type {
+  BarSegment,
+  BarStyle,
+  BarStyleName,
+  SegmentColor,
+} from "../types.js"
+
+/**
+ * Built-in bar styles
+ *
+ * - `block`: whole cells `████░░░░`
+ * - `smooth`: eighth-block partial cells `███▍    `
+ * - `braille`: braille partial cells `⣿⣿⣿⡆    `
+ * - `ascii`: `====>    ` (wrap in brackets via the format or label)
+ */
+export const BAR_STYLES: Record<BarStyleName, BarStyle> = {
+  block: { fill: "█", empty: "░" },
+  smooth: {
+    fill: "█",
+    empty: " ",
+    partials: ["▏", "▎", "▍", "▌", "▋", "▊", "▉"],
+  },
+  braille: {
+    fill: "⣿",
+    empty: " ",
+    partials: ["⡀", "⡄", "⡆", "⡇", "⣇", "⣧", "⣷"],
+  },
+  ascii: { fill: "=", empty: " ", head: ">" },
+}
+
+/** Filled and empty parts of a bar, so callers can color them separately */
+export interface BarParts {
+  filled: string
+  empty: string
+}
+
+/**
+ * Resolve a style name or custom style to glyphs
+ *
+ * @param style - Built-in name or custom glyphs (default: "block")
+ * @param overrides - Glyphs replacing the style's own (e.g. legacy
+ *   `complete`/`incomplete` options)
+ */
+export function resolveBarStyle(
+  style: BarStyleName | BarStyle = "block",
+  overrides: Partial<BarStyle> = {},
+): BarStyle {
+  const base = typeof style === "string" ? BAR_STYLES[style] : style
+  const resolved = { ...base }
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) {
+      Object.assign(resolved, { [key]: value })
+    }
+  }
+  return resolved
+}
+
+/**
+ * Draw a bar for a progress ratio
+ *
+ * With `partials`, the cell at the edge of the fill shows the closest
+ * partial glyph, so the bar advances in fractions of a cell. Otherwise the
+ * fill is rounded to whole cells and `head` (if any) marks its edge.
+ *
+ * @param ratio - Progress from 0 to 1 (clamped)
+ * @param width - Bar width in cells
+ *
+ * @example
+ * ```ts
+ * renderBar(0.55, 8, "smooth") // { filled: "████▍", empty: "   " }
+ * renderBar(0.5, 10, "ascii")  // { filled: "====>", empty: "     " }
+ * ```
+ */
+export function renderBar(
+  ratio: number,
+  width: number,
+  style: BarStyleName | BarStyle = "block",
+): BarParts {
+  const glyphs = typeof style === "string" ? BAR_STYLES[style] : style
+  const clamped = Math.min(1, Math.max(0, isFinite(ratio) ? ratio : 0))
+  const cells = Math.max(0, Math.floor(width))
+
+  let filled: string
+  let used: number
+
+  if (glyphs.partials && glyphs.partials.length > 0) {
+    const steps = glyphs.partials.length + 1
+    const units = Math.round(clamped * cells * steps)
+    const whole = Math.floor(units / steps)
+    const partial = units % steps
+    filled = glyphs.fill.repeat(whole)
+    used = whole
+    if (partial > 0) {
+      filled += glyphs.partials[partial - 1]
+      used++
+    }
+  } else {
+    used = Math.round(clamped * cells)
+    filled =
+      glyphs.head && used > 0 && used < cells
+        ? glyphs.fill.repeat(used - 1) + glyphs.head
+        : glyphs.fill.repeat(used)
+  }
+
+  return { filled, empty: glyphs.empty.repeat(cells - used) }
+}
+
+/**
+ * Draw one frame of an indeterminate bar: a segment bouncing end to end
+ *
+ * @param frame - Animation frame counter (any non-negative integer)
+ * @param width - Bar width in cells
+ *
+ * @example
+ * ```ts
+ * renderIndeterminateBar(0, 8) // "██░░░░░░"
+ * renderIndeterminateBar(3, 8) // "░░░██░░░"
+ * ```
+ */
+export function renderIndeterminateBar(
+  frame: number,
+  width: number,
+  style: BarStyleName | BarStyle = "block",
+): string {
+  const glyphs = typeof style === "string" ? BAR_STYLES[style] : style
+  const cells = Math.max(0, Math.floor(width))
+  const segment = Math.min(cells, Math.max(1, Math.round(cells / 4)))
+  const travel = cells - segment
+
+  // Ping-pong over 0..travel
+  const step = travel > 0 ? frame % (travel * 2) : 0
+  const offset = step <= travel ? step : travel * 2 - step
+
+  return (
+    glyphs.empty.repeat(offset) +
+    glyphs.fill.repeat(segment) +
+    glyphs.empty.repeat(travel - offset)
+  )
+}
+
+/** Default stacked segment colors, assigned in order */
+export const SEGMENT_COLORS: readonly SegmentColor[] = [
+  "green",
+  "red",
+  "yellow",
+  "blue",
+  "magenta",
+  "cyan",
+]
+
+/** Segment with its color filled in */
+export type ResolvedSegment = Required<BarSegment>
+
+/** Cells of each stacked segment in order, plus the empty remainder */
+export interface StackedBarParts {
+  segments: string[]
+  empty: string
+}
+
+/**
+ * Normalize segment names and configs, assigning default colors
+ *
+ * @example
+ * ```ts
+ * resolveSegments(["succeeded", { name: "skipped", color: "gray" }])
+ * // [{ name: "succeeded", color: "green" }, { name: "skipped", color: "gray" }]
+ * ```
+ */
+export function resolveSegments(
+  segments: readonly (string | BarSegment)[],
+): ResolvedSegment[] {
+  return segments.map((segment, i) => {
+    const config = typeof segment === "string" ? { name: segment } : segment
+    return {
+      name: config.name,
+      color: config.color ?? SEGMENT_COLORS[i % SEGMENT_COLORS.length]!,
+    }
+  })
+}
+
+/**
+ * Draw a bar split into consecutive segments
+ *
+ * Segment edges are rounded from running totals, so the segments always
+ * add up to the filled width. Values past the total are cut off. Every
+ * segment uses the style's `fill` glyph; callers color them apart.
+ *
+ * @param values - Segment values in drawing order
+ * @param total - Value of a full bar
+ * @param width - Bar width in cells
+ *
+ * @example
+ * ```ts
+ * renderStackedBar([5, 2, 1], 10, 10)
+ * // { segments: ["█████", "██", "█"], empty: "░░" }
+ * ```
+ */
+export function renderStackedBar(
+  values: readonly number[],
+  total: number,
+  width: number,
+  style: BarStyleName | BarStyle = "block",
+): StackedBarParts {
+  const glyphs = typeof style === "string" ? BAR_STYLES[style] : style
+  const cells = Math.max(0, Math.floor(width))
+  const segments: string[] = []
+
+  let sum = 0
+  let used = 0
+  for (const value of values) {
+    sum += Math.max(0, isFinite(value) ? value : 0)
+    const ratio = total > 0 ? Math.min(1, sum / total) : 0
+    const edge = Math.round(ratio * cells)
+    segments.push(glyphs.fill.repeat(edge - used))
+    used = edge
+  }
+
+  return { segments, empty: glyphs.empty.repeat(cells - used) }
+}
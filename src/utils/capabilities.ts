@@ -0,0 +1,230 @@
+/**
+ * Terminal capability detection
+ *
+ * What a stream's terminal can show - color depth, Unicode glyphs, OSC 8
+ * hyperlinks, synchronized output - read from the environment the way
+ * terminals advertise it (`TERM`, `COLORTERM`, `TERM_PROGRAM`, ...). Nothing
+ * is queried from the terminal itself, so detection is synchronous.
+ */
+
+/** Colors a terminal can show */
+export type ColorDepth = "none" | "16" | "256" | "truecolor"
+
+/** What a terminal supports */
+export interface TerminalCapabilities {
+  /** Output is an interactive terminal (or `FORCE_TTY=1`) */
+  tty: boolean
+  /** Color depth; `FORCE_COLOR` wins over `NO_COLOR` */
+  colors: ColorDepth
+  /** Unicode glyphs render (false on the Linux console: ASCII fallbacks) */
+  unicode: boolean
+  /** OSC 8 hyperlinks are clickable */
+  hyperlinks: boolean
+  /** Frames can be drawn atomically (DEC mode 2026) */
+  synchronizedOutput: boolean
+  /**
+   * Running under continuous integration: links aren't clickable and no
+   * tab progress or title is written
+   */
+  ci: boolean
+}
+
+/** Variables set by CI services */
+const CI_VARIABLES = [
+  "CI",
+  "CONTINUOUS_INTEGRATION",
+  "BUILD_NUMBER",
+  "RUN_ID",
+  "GITHUB_ACTIONS",
+  "GITLAB_CI",
+  "BUILDKITE",
+  "TF_BUILD",
+]
+
+/** `TERM_PROGRAM` values of terminals with 24-bit color */
+const TRUECOLOR_PROGRAMS = new Set([
+  "iTerm.app",
+  "WezTerm",
+  "ghostty",
+  "vscode",
+])
+
+/** `TERM_PROGRAM` values of terminals with clickable OSC 8 links */
+const HYPERLINK_PROGRAMS = new Set([
+  "iTerm.app",
+  "WezTerm",
+  "ghostty",
+  "vscode",
+])
+
+/** `TERM_PROGRAM` values of terminals with synchronized output */
+const SYNC_PROGRAMS = new Set(["iTerm.app", "WezTerm", "ghostty"])
+
+/** `TERM` values with OSC 8 links and synchronized output */
+const MODERN_TERMS = new Set([
+  "xterm-kitty",
+  "xterm-ghostty",
+  "foot",
+  "alacritty",
+])
+
+/** Begin a synchronized update: the terminal holds drawing until the end */
+export const SYNC_START = "\x1b[?2026h"
+
+/** End a synchronized update and draw the frame at once */
+export const SYNC_END = "\x1b[?2026l"
+
+let overrides: Partial<TerminalCapabilities> | undefined
+const cache = new WeakMap<NodeJS.WriteStream, TerminalCapabilities>()
+
+/**
+ * Detect what the terminal behind a stream supports
+ *
+ * @example
+ * ```ts
+ * detectCapabilities(process.stderr, { TERM: "linux" }).unicode // false
+ * detectCapabilities(process.stdout, { FORCE_COLOR: "3" }).colors // "truecolor"
+ * ```
+ */
+export function detectCapabilities(
+  stream: NodeJS.WriteStream = process.stdout,
+  env: NodeJS.ProcessEnv = process.env,
+): TerminalCapabilities {
+  const tty = env.FORCE_TTY === "1" || (stream.isTTY ?? false)
+  const ci = CI_VARIABLES.some((name) => isEnabled(env[name]))
+  const term = env.TERM ?? ""
+  const program = env.TERM_PROGRAM ?? ""
+
+  return {
+    tty,
+    colors: detectColors(tty, env),
+    unicode: detectUnicode(env),
+    hyperlinks:
+      env.FORCE_HYPERLINK !== undefined
+        ? isEnabled(env.FORCE_HYPERLINK)
+        : tty &&
+          !ci &&
+          (HYPERLINK_PROGRAMS.has(program) ||
+            MODERN_TERMS.has(term) ||
+            Boolean(env.WT_SESSION) ||
+            Boolean(env.KONSOLE_VERSION) ||
+            Number(env.VTE_VERSION ?? 0) >= 5000),
+    synchronizedOutput:
+      tty && (SYNC_PROGRAMS.has(program) || MODERN_TERMS.has(term)),
+    ci,
+  }
+}
+
+/**
+ * Capabilities of a stream's terminal (detected once per stream)
+ *
+ * Components read them to pick glyphs, colors and how frames are written.
+ */
+export function getCapabilities(
+  stream: NodeJS.WriteStream = process.stdout,
+): TerminalCapabilities {
+  let detected = cache.get(stream)
+  if (!detected) {
+    detected = detectCapabilities(stream)
+    cache.set(stream, detected)
+  }
+  return overrides ? { ...detected, ...overrides } : detected
+}
+
+/**
+ * Override detected capabilities for every stream; `undefined` goes back
+ * to detection
+ *
+ * @example
+ * ```ts
+ * setCapabilities({ unicode: false }) // ASCII glyphs everywhere
+ * ```
+ */
+export function setCapabilities(
+  values: Partial<TerminalCapabilities> | undefined,
+): void {
+  overrides = values
+}
+
+/**
+ * Link text to a URL with OSC 8, or show the URL after the text where
+ * links aren't clickable
+ *
+ * @example
+ * ```ts
+ * spinner.succeed(`Published ${hyperlink("docs", url)}`)
+ * ```
+ */
+export function hyperlink(
+  text: string,
+  url: string,
+  stream: NodeJS.WriteStream = process.stdout,
+): string {
+  return getCapabilities(stream).hyperlinks
+    ? `\x1b]8;;${url}\x1b\\${text}\x1b]8;;\x1b\\`
+    : `${text} (${url})`
+}
+
+/**
+ * Color depth from `FORCE_COLOR`/`NO_COLOR`, then what `COLORTERM`,
+ * `TERM_PROGRAM` and `TERM` advertise
+ */
+function detectColors(tty: boolean, env: NodeJS.ProcessEnv): ColorDepth {
+  if (env.FORCE_COLOR !== undefined) {
+    switch (env.FORCE_COLOR) {
+      case "0":
+      case "false":
+        return "none"
+      case "2":
+        return "256"
+      case "3":
+        return "truecolor"
+      default:
+        return "16"
+    }
+  }
+
+  const term = env.TERM ?? ""
+  if (env.NO_COLOR || !tty || term === "dumb") {
+    return "none"
+  }
+  if (env.COLORTERM === "truecolor" || env.COLORTERM === "24bit") {
+    return "truecolor"
+  }
+  if (TRUECOLOR_PROGRAMS.has(env.TERM_PROGRAM ?? "")) {
+    return "truecolor"
+  }
+  if (/-256(color)?$/i.test(term)) {
+    return "256"
+  }
+  if (
+    /^(screen|xterm|vt100|vt220|rxvt|linux|cygwin)|color|ansi/i.test(term) ||
+    env.COLORTERM
+  ) {
+    return "16"
+  }
+  return process.platform === "win32" ? "256" : "none"
+}
+
+/**
+ * Unicode everywhere but the Linux console and dumb terminals; on Windows
+ * only in terminals known to render it
+ */
+function detectUnicode(env: NodeJS.ProcessEnv): boolean {
+  const term = env.TERM ?? ""
+  if (process.platform !== "win32") {
+    return term !== "linux" && term !== "dumb"
+  }
+  return (
+    Boolean(env.WT_SESSION) ||
+    env.TERM_PROGRAM === "vscode" ||
+    term === "xterm-256color" ||
+    term === "alacritty" ||
+    env.TERMINAL_EMULATOR === "JetBrains-JediTerm"
+  )
+}
+
+/** Set to something other than empty, `0` or `false` */
+function isEnabled(value: string | undefined): boolean {
+  return value !== undefined && !["", "0", "false"].includes(value)
+}
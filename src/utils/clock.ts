@@ -0,0 +1,176 @@
+/**
+ * Shared animation clock - one timer for every spinner and animated bar
+ *
+ * Components subscribe with the interval they animate at and derive their
+ * frame from the clock's time, so spinners of the same style stay in
+ * phase. The timer runs at the shortest subscribed interval and stops when
+ * the last subscriber leaves.
+ */
+
+/** Time source and timer behind an animation clock */
+export interface Ticker {
+  /** Current time (ms) */
+  now(): number
+  /** Call `tick` every `interval` ms until the returned function is called */
+  schedule(tick: () => void, interval: number): () => void
+}
+
+/** Ticker driven by hand, for tests */
+export interface ManualTicker extends Ticker {
+  /** Move time forward, firing every tick that falls due on the way */
+  advance(ms: number): void
+}
+
+/** Shared animation timer */
+export interface AnimationClock {
+  /** Current clock time (ms) */
+  now(): number
+  /**
+   * Call `listener` at least every `interval` ms
+   * @returns Function that unsubscribes
+   */
+  subscribe(interval: number, listener: () => void): () => void
+  /** True while any component is subscribed (the timer is running) */
+  readonly active: boolean
+}
+
+/** Real time and setInterval */
+export const SYSTEM_TICKER: Ticker = {
+  now: () => Date.now(),
+  schedule(tick, interval) {
+    const timer = setInterval(tick, interval)
+    return () => clearInterval(timer)
+  },
+}
+
+/**
+ * Create a clock driven by a ticker
+ *
+ * @example
+ * ```ts
+ * const clock = createAnimationClock()
+ * const stop = clock.subscribe(80, () => {
+ *   const frame = frameAt(clock.now(), SPINNER_FRAMES.dots.length, 80)
+ *   render(SPINNER_FRAMES.dots[frame])
+ * })
+ * stop() // the timer stops with its last subscriber
+ * ```
+ */
+export function createAnimationClock(
+  ticker: Ticker = SYSTEM_TICKER,
+): AnimationClock {
+  const listeners = new Map<() => void, number>()
+  let cancel: (() => void) | null = null
+  let tickInterval = 0
+
+  const tick = () => {
+    for (const listener of [...listeners.keys()]) {
+      listener()
+    }
+  }
+
+  // Run the timer at the shortest interval anyone needs, or not at all
+  const reschedule = () => {
+    const interval = listeners.size > 0 ? Math.min(...listeners.values()) : 0
+    if (interval === tickInterval) return
+
+    cancel?.()
+    cancel = interval > 0 ? ticker.schedule(tick, interval) : null
+    tickInterval = interval
+  }
+
+  return {
+    now: () => ticker.now(),
+
+    subscribe(interval, listener) {
+      const wrapped = () => listener()
+      listeners.set(wrapped, Math.max(1, interval))
+      reschedule()
+      return () => {
+        if (listeners.delete(wrapped)) reschedule()
+      }
+    },
+
+    get active() {
+      return listeners.size > 0
+    },
+  }
+}
+
+/**
+ * Create a ticker whose time only moves on `advance()`
+ *
+ * @example
+ * ```ts
+ * const ticker = createManualTicker()
+ * setAnimationClock(createAnimationClock(ticker))
+ * spinner.start()
+ * ticker.advance(80) // next frame
+ * ```
+ */
+export function createManualTicker(start = 0): ManualTicker {
+  let time = start
+  const timers = new Set<{ tick: () => void; interval: number; next: number }>()
+
+  return {
+    now: () => time,
+
+    schedule(tick, interval) {
+      const timer = { tick, interval, next: time + interval }
+      timers.add(timer)
+      return () => {
+        timers.delete(timer)
+      }
+    },
+
+    advance(ms) {
+      const end = time + ms
+      for (;;) {
+        // Fire the earliest due timer next, so ticks run in time order
+        let due: { tick: () => void; interval: number; next: number } | null =
+          null
+        for (const timer of timers) {
+          if (timer.next <= end && (!due || timer.next < due.next)) {
+            due = timer
+          }
+        }
+        if (!due) break
+
+        time = due.next
+        due.next += due.interval
+        due.tick()
+      }
+      time = end
+    },
+  }
+}
+
+/**
+ * Frame of a looping animation at a clock time
+ */
+export function frameAt(
+  time: number,
+  frames: number,
+  interval: number,
+): number {
+  if (frames <= 0) return 0
+  return Math.floor(Math.max(0, time) / Math.max(1, interval)) % frames
+}
+
+let sharedClock: AnimationClock = createAnimationClock()
+
+/**
+ * Get the clock used by components without their own `clock` option
+ */
+export function getAnimationClock(): AnimationClock {
+  return sharedClock
+}
+
+/**
+ * Replace the shared clock (e.g. with one on a manual ticker in tests)
+ *
+ * Components pick up the clock when they start animating.
+ */
+export function setAnimationClock(clock: AnimationClock): void {
+  sharedClock = clock
+}
@@ -12,10 +12,47 @@ export interface ETASample {
 export interface ETAResult {
   /** Estimated seconds remaining, or null if insufficient data */
   seconds: number | null
-  /** Formatted ETA string (e.g., "1:30", "2:15:30", "--:--") */
+  /** Formatted ETA string (e.g., "1:30", "2:15:30", "--:--", "stabilizing…") */
   formatted: string
+  /** How much the estimate can be trusted, from 0 to 1 */
+  confidence: number
+  /** True while the rate is too erratic or too new to trust */
+  stabilizing: boolean
 }
 
+/** Rate estimate produced by an ETA strategy */
+export interface RateEstimate {
+  /** Units per second */
+  rate: number
+  /** How much the rate can be trusted, from 0 to 1 */
+  confidence: number
+}
+
+/**
+ * Strategy for estimating the rate of progress from recent samples
+ *
+ * @example
+ * ```ts
+ * // Rate of the most recent interval only
+ * const lastInterval: ETAStrategy = {
+ *   bufferSize: 2,
+ *   estimate: (samples) => {
+ *     const rate = calculateRate(samples)
+ *     return rate === null ? null : { rate, confidence: 1 }
+ *   },
+ * }
+ * ```
+ */
+export interface ETAStrategy {
+  /** Samples to keep (default: DEFAULT_ETA_BUFFER_SIZE) */
+  readonly bufferSize?: number
+  /** Estimate the rate, or return null if there isn't enough data */
+  estimate(samples: readonly ETASample[]): RateEstimate | null
+}
+
+/** Built-in ETA strategies */
+export type ETAStrategyName = "linear" | "ewma" | "window" | "median"
+
 /**
  * Calculate ETA from a buffer of samples
  *
@@ -35,7 +72,7 @@ export interface ETAResult {
  * ```
  */
 export function calculateETA(
-  buffer: ETASample[],
+  buffer: readonly ETASample[],
   current: number,
   total: number,
 ): number | null {
@@ -43,20 +80,45 @@ export function calculateETA(
     return null
   }
 
+  const rate = calculateRate(buffer)
+  if (rate === null || rate <= 0) {
+    return null
+  }
+
+  const remaining = total - current
+
+  return remaining / rate
+}
+
+/**
+ * Calculate the smoothed rate (units per second) over a buffer of samples
+ *
+ * @param buffer - Array of {time, value} samples
+ * @returns Rate per second (null if insufficient data)
+ *
+ * @example
+ * ```ts
+ * const buffer = [
+ *   { time: 1000, value: 0 },
+ *   { time: 3000, value: 5_000_000 },
+ * ];
+ * calculateRate(buffer); // 2_500_000 (bytes/sec)
+ * ```
+ */
+export function calculateRate(buffer: readonly ETASample[]): number | null {
+  if (buffer.length < 2) {
+    return null
+  }
+
   const first = buffer[0]!
   const last = buffer[buffer.length - 1]!
 
   const elapsed = (last.time - first.time) / 1000 // seconds
-  const progress = last.value - first.value
-
-  if (elapsed <= 0 || progress <= 0) {
+  if (elapsed <= 0) {
     return null
   }
 
-  const rate = progress / elapsed // items per second
-  const remaining = total - current
-
-  return remaining / rate
+  return (last.value - first.value) / elapsed
 }
 
 /**
@@ -94,46 +156,192 @@ export function formatETA(eta: number | null): string {
   return `${minutes}:${seconds.toString().padStart(2, "0")}`
 }
 
+/** Confidence below which an estimate is reported as stabilizing */
+export const STABILIZING_THRESHOLD = 0.5
+
+/** Intervals needed before a steady rate earns full confidence */
+const STABLE_INTERVALS = 4
+
+/**
+ * Linear rate between the oldest and newest sample
+ *
+ * The original estimator: reacts slowly and always reports full
+ * confidence.
+ */
+export function linearStrategy(): ETAStrategy {
+  return {
+    estimate(samples) {
+      const rate = calculateRate(samples)
+      return rate === null ? null : { rate, confidence: 1 }
+    },
+  }
+}
+
+/**
+ * Exponentially weighted moving average of the per-update rates
+ *
+ * @param alpha - Weight of the newest rate, from 0 to 1 (default: 0.3);
+ *   higher reacts faster, lower smooths more
+ */
+export function ewmaStrategy(alpha = 0.3): ETAStrategy {
+  return {
+    estimate(samples) {
+      const rates = intervalRates(samples)
+      if (rates.length === 0) return null
+
+      let rate = rates[0]!
+      for (const next of rates.slice(1)) {
+        rate = alpha * next + (1 - alpha) * rate
+      }
+      return { rate, confidence: rateConfidence(rates) }
+    },
+  }
+}
+
+/**
+ * Average rate over a recent time window
+ *
+ * @param windowMs - Window length (default: 10 seconds)
+ */
+export function windowStrategy(windowMs = 10_000): ETAStrategy {
+  return {
+    // Enough samples to cover the window at frequent updates
+    bufferSize: 100,
+    estimate(samples) {
+      const last = samples[samples.length - 1]
+      if (!last) return null
+
+      let start = samples.findIndex((s) => s.time >= last.time - windowMs)
+      // Always span at least one interval
+      start = Math.min(start, samples.length - 2)
+      const window = samples.slice(Math.max(0, start))
+
+      const rate = calculateRate(window)
+      if (rate === null) return null
+      return { rate, confidence: rateConfidence(intervalRates(window)) }
+    },
+  }
+}
+
+/**
+ * Median of the per-update rates - ignores occasional very slow or very
+ * fast items
+ */
+export function medianStrategy(): ETAStrategy {
+  return {
+    estimate(samples) {
+      const rates = intervalRates(samples)
+      if (rates.length === 0) return null
+
+      const sorted = [...rates].sort((a, b) => a - b)
+      const mid = Math.floor(sorted.length / 2)
+      const rate =
+        sorted.length % 2 === 0
+          ? (sorted[mid - 1]! + sorted[mid]!) / 2
+          : sorted[mid]!
+      return { rate, confidence: rateConfidence(rates) }
+    },
+  }
+}
+
+/**
+ * Resolve a strategy name to a strategy (strategies pass through)
+ */
+export function resolveETAStrategy(
+  strategy: ETAStrategyName | ETAStrategy = "linear",
+): ETAStrategy {
+  if (typeof strategy !== "string") {
+    return strategy
+  }
+
+  switch (strategy) {
+    case "ewma":
+      return ewmaStrategy()
+    case "window":
+      return windowStrategy()
+    case "median":
+      return medianStrategy()
+    default:
+      return linearStrategy()
+  }
+}
+
 /**
  * Calculate and format ETA in one call
  *
  * @param buffer - Array of {time, value} samples
  * @param current - Current progress value
  * @param total - Total target value
- * @returns Object with seconds (number|null) and formatted string
+ * @param strategy - Rate estimator (default: "linear")
+ * @returns Seconds (number|null), formatted string and confidence
+ *
+ * @example
+ * ```ts
+ * const eta = getETA(buffer, 40, 100, "median");
+ * eta.stabilizing ? "stabilizing…" : eta.formatted;
+ * ```
  */
 export function getETA(
-  buffer: ETASample[],
+  buffer: readonly ETASample[],
   current: number,
   total: number,
+  strategy: ETAStrategyName | ETAStrategy = "linear",
 ): ETAResult {
-  const seconds = calculateETA(buffer, current, total)
+  const estimate = resolveETAStrategy(strategy).estimate(buffer)
+
+  if (!estimate || estimate.rate <= 0) {
+    return {
+      seconds: null,
+      formatted: formatETA(null),
+      confidence: 0,
+      stabilizing: false,
+    }
+  }
+
+  const seconds = (total - current) / estimate.rate
+  const stabilizing = estimate.confidence < STABILIZING_THRESHOLD
   return {
     seconds,
-    formatted: formatETA(seconds),
+    formatted: stabilizing ? "stabilizing…" : formatETA(seconds),
+    confidence: estimate.confidence,
+    stabilizing,
   }
 }
 
 /** Default buffer size for ETA smoothing */
 export const DEFAULT_ETA_BUFFER_SIZE = 10
 
+/** Options for createETATracker */
+export interface ETATrackerOptions {
+  /** Number of samples to keep (default: the strategy's, or 10) */
+  bufferSize?: number
+  /** Rate estimator (default: "linear") */
+  strategy?: ETAStrategyName | ETAStrategy
+}
+
 /**
  * Create an ETA tracker with automatic buffer management
  *
- * @param bufferSize - Number of samples to keep (default: 10)
+ * @param options - Buffer size (legacy) or tracker options
  * @returns ETA tracker object
  *
  * @example
  * ```ts
- * const tracker = createETATracker();
+ * const tracker = createETATracker({ strategy: "ewma" });
  * tracker.record(0);
  * // ... later ...
  * tracker.record(50);
  * const eta = tracker.getETA(50, 100);
- * console.log(eta.formatted); // "0:30"
+ * console.log(eta.formatted); // "0:30" (or "stabilizing…")
  * ```
  */
-export function createETATracker(bufferSize = DEFAULT_ETA_BUFFER_SIZE) {
+export function createETATracker(
+  options: number | ETATrackerOptions = DEFAULT_ETA_BUFFER_SIZE,
+) {
+  const { bufferSize: size, strategy: name } =
+    typeof options === "number" ? { bufferSize: options } : options
+  const strategy = resolveETAStrategy(name)
+  const bufferSize = size ?? strategy.bufferSize ?? DEFAULT_ETA_BUFFER_SIZE
   const buffer: ETASample[] = []
 
   return {
@@ -147,7 +355,12 @@ export function createETATracker(bufferSize = DEFAULT_ETA_BUFFER_SIZE) {
 
     /** Get current ETA */
     getETA(current: number, total: number): ETAResult {
-      return getETA(buffer, current, total)
+      return getETA(buffer, current, total, strategy)
+    },
+
+    /** Get the estimated rate (units per second), or null if unknown */
+    getRate(): number | null {
+      return strategy.estimate(buffer)?.rate ?? null
     },
 
     /** Reset the buffer */
@@ -161,3 +374,38 @@ export function createETATracker(bufferSize = DEFAULT_ETA_BUFFER_SIZE) {
     },
   }
 }
+
+/** ETA tracker returned by createETATracker */
+export type ETATracker = ReturnType<typeof createETATracker>
+
+/**
+ * Rates between consecutive samples (intervals without elapsed time skipped)
+ */
+function intervalRates(samples: readonly ETASample[]): number[] {
+  const rates: number[] = []
+  for (let i = 1; i < samples.length; i++) {
+    const elapsed = (samples[i]!.time - samples[i - 1]!.time) / 1000
+    if (elapsed > 0) {
+      rates.push((samples[i]!.value - samples[i - 1]!.value) / elapsed)
+    }
+  }
+  return rates
+}
+
+/**
+ * Confidence in a rate from how many intervals agree and how closely
+ * (coefficient of variation)
+ */
+function rateConfidence(rates: number[]): number {
+  if (rates.length === 0) return 0
+
+  const mean = rates.reduce((sum, r) => sum + r, 0) / rates.length
+  if (mean <= 0) return 0
+
+  const variance =
+    rates.reduce((sum, r) => sum + (r - mean) ** 2, 0) / rates.length
+  const variation = Math.sqrt(variance) / mean
+  const coverage = Math.min(1, rates.length / STABLE_INTERVALS)
+
+  return coverage / (1 + variation)
+}
@@ -0,0 +1,171 @@
+/**
+ * Human-readable formatting for progress output
+ */
+
+import type { ByteUnits, ProgressUnit } from "../types.js"
+
+/** Byte unit prefixes, smallest first */
+const BYTE_PREFIXES: Record<ByteUnits, { base: number; units: string[] }> = {
+  si: { base: 1000, units: ["B", "kB", "MB", "GB", "TB", "PB"] },
+  iec: { base: 1024, units: ["B", "KiB", "MiB", "GiB", "TiB", "PiB"] },
+}
+
+/** Suffixes for compact counts, smallest first */
+const COUNT_SUFFIXES = ["", "k", "M", "B", "T"]
+
+/**
+ * Format a duration in milliseconds
+ *
+ * Sub-second durations keep millisecond precision, under a minute one
+ * decimal place, and longer durations use zero-padded units so columns line
+ * up.
+ *
+ * @example
+ * ```ts
+ * formatDuration(850)     // "850ms"
+ * formatDuration(1234)    // "1.2s"
+ * formatDuration(184000)  // "3m 04s"
+ * formatDuration(3725000) // "1h 02m"
+ * ```
+ */
+export function formatDuration(ms: number): string {
+  if (!isFinite(ms) || ms < 0) {
+    return "--"
+  }
+
+  if (ms < 1000) {
+    return `${Math.round(ms)}ms`
+  }
+
+  if (ms < 59950) {
+    return `${(ms / 1000).toFixed(1)}s`
+  }
+
+  const totalSeconds = Math.round(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+
+  if (hours > 0) {
+    return `${hours}h ${minutes.toString().padStart(2, "0")}m`
+  }
+
+  return `${minutes}m ${seconds.toString().padStart(2, "0")}s`
+}
+
+/**
+ * Format a byte count with SI or IEC prefixes
+ *
+ * @example
+ * ```ts
+ * formatBytes(512)               // "512 B"
+ * formatBytes(12_400_000)        // "12.4 MB"
+ * formatBytes(12_400_000, "iec") // "11.8 MiB"
+ * ```
+ */
+export function formatBytes(bytes: number, units: ByteUnits = "si"): string {
+  if (!isFinite(bytes)) {
+    return "--"
+  }
+
+  const { base, units: names } = BYTE_PREFIXES[units]
+  return scale(bytes, base, names, " ")
+}
+
+/**
+ * Format an item count, abbreviating from a thousand up
+ *
+ * @example
+ * ```ts
+ * formatCount(950)       // "950"
+ * formatCount(12_345)    // "12.3k"
+ * formatCount(4_500_000) // "4.5M"
+ * ```
+ */
+export function formatCount(count: number): string {
+  if (!isFinite(count)) {
+    return "--"
+  }
+
+  return scale(count, 1000, COUNT_SUFFIXES, "")
+}
+
+/**
+ * Format a progress value in its unit
+ *
+ * @example
+ * ```ts
+ * formatAmount(1500, "count") // "1.5k"
+ * formatAmount(1500, "bytes") // "1.5 kB"
+ * ```
+ */
+export function formatAmount(
+  value: number,
+  unit: ProgressUnit = "count",
+  units: ByteUnits = "si",
+): string {
+  return unit === "bytes" ? formatBytes(value, units) : formatCount(value)
+}
+
+/**
+ * Format a per-second rate in its unit
+ *
+ * Slow item rates keep one decimal so they don't all round to "0/s".
+ *
+ * @example
+ * ```ts
+ * formatRate(12_400_000, "bytes") // "12.4 MB/s"
+ * formatRate(3.25)                // "3.3/s"
+ * formatRate(null)                // "--/s"
+ * ```
+ */
+export function formatRate(
+  perSecond: number | null,
+  unit: ProgressUnit = "count",
+  units: ByteUnits = "si",
+): string {
+  if (perSecond === null || !isFinite(perSecond)) {
+    return "--/s"
+  }
+
+  if (unit === "count" && Math.abs(perSecond) < 100) {
+    return `${perSecond.toFixed(1)}/s`
+  }
+
+  return `${formatAmount(perSecond, unit, units)}/s`
+}
+
+/**
+ * Scale a value to the largest unit it reaches: one decimal below 100,
+ * none above (e.g. "12.4", "123")
+ */
+function scale(
+  value: number,
+  base: number,
+  names: string[],
+  separator: string,
+): string {
+  const sign = value < 0 ? "-" : ""
+  let scaled = Math.abs(value)
+  let index = 0
+  while (scaled >= base && index < names.length - 1) {
+    scaled /= base
+    index++
+  }
+
+  if (index === 0) {
+    return `${sign}${Math.round(scaled)}${separator}${names[0]}`
+  }
+
+  // Rounding can carry into the next unit (999.96 kB is 1.0 MB, not 1000 kB)
+  const digits = (n: number) => (n < 100 ? 1 : 0)
+  if (
+    Number(scaled.toFixed(digits(scaled))) >= base &&
+    index < names.length - 1
+  ) {
+    scaled /= base
+    index++
+  }
+
+  return `${sign}${scaled.toFixed(digits(scaled))}${separator}${names[index]}`
+}
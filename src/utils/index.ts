@@ -4,10 +4,86 @@
 
 export {
   calculateETA,
+  calculateRate,
   formatETA,
   getETA,
   createETATracker,
+  linearStrategy,
+  ewmaStrategy,
+  windowStrategy,
+  medianStrategy,
+  resolveETAStrategy,
   DEFAULT_ETA_BUFFER_SIZE,
+  STABILIZING_THRESHOLD,
   type ETASample,
   type ETAResult,
+  type ETAStrategy,
+  type ETAStrategyName,
+  type ETATracker,
+  type ETATrackerOptions,
+  type RateEstimate,
 } from "./eta.js"
+export {
+  formatDuration,
+  formatBytes,
+  formatCount,
+  formatAmount,
+  formatRate,
+} from "./format.js"
+export {
+  BAR_STYLES,
+  renderBar,
+  renderIndeterminateBar,
+  resolveBarStyle,
+  renderStackedBar,
+  resolveSegments,
+  SEGMENT_COLORS,
+  type BarParts,
+  type ResolvedSegment,
+  type StackedBarParts,
+} from "./bar.js"
+export {
+  createThrottle,
+  DEFAULT_THROTTLE,
+  type Throttle,
+  type ThrottleOptions,
+} from "./throttle.js"
+export {
+  DEFAULT_THEME,
+  ASCII_THEME,
+  setTheme,
+  getTheme,
+  resolveTheme,
+  mergeTheme,
+  colorize,
+} from "./theme.js"
+export {
+  createAnimationClock,
+  createManualTicker,
+  frameAt,
+  getAnimationClock,
+  setAnimationClock,
+  SYSTEM_TICKER,
+  type AnimationClock,
+  type ManualTicker,
+  type Ticker,
+} from "./clock.js"
+export {
+  detectAccessibility,
+  formatAnnouncement,
+  getAccessibility,
+  isAccessibleMode,
+  setAccessibleMode,
+  type Accessibility,
+  type AnnouncementStatus,
+} from "./accessibility.js"
+export {
+  detectCapabilities,
+  getCapabilities,
+  setCapabilities,
+  hyperlink,
+  SYNC_START,
+  SYNC_END,
+  type ColorDepth,
+  type TerminalCapabilities,
+} from "./capabilities.js"
@@ -0,0 +1,175 @@
+/**
+ * Themes - icons, colors, bar glyphs, spinner and prompt defaults shared by
+ * the CLI and React components
+ */
+
+import { Chalk, type ChalkInstance } from "chalk"
+import type { Theme, ThemeOverrides } from "../types.js"
+import { getAccessibility } from "./accessibility.js"
+import { getCapabilities, type ColorDepth } from "./capabilities.js"
+
+/** Built-in theme */
+export const DEFAULT_THEME: Theme = {
+  icons: {
+    pending: "○",
+    completed: "✔",
+    failed: "✖",
+    skipped: "⊘",
+    warning: "⚠",
+    info: "ℹ",
+    started: "▸",
+  },
+  colors: {
+    pending: "gray",
+    running: "cyan",
+    completed: "green",
+    failed: "red",
+    skipped: "yellow",
+    warning: "yellow",
+    info: "blue",
+    bar: "cyan",
+    barEmpty: "gray",
+    accent: "cyan",
+  },
+  bar: "block",
+  spinner: "dots",
+  prompt: {
+    question: "?",
+    answered: "✔",
+    pointer: ">",
+    more: "...",
+  },
+}
+
+/**
+ * Built-in theme for terminals without Unicode glyphs (the Linux console):
+ * ASCII icons and prompt symbols, the `ascii` bar and `line` spinner
+ */
+export const ASCII_THEME: Theme = {
+  icons: {
+    pending: "o",
+    completed: "+",
+    failed: "x",
+    skipped: "-",
+    warning: "!",
+    info: "i",
+    started: ">",
+  },
+  colors: DEFAULT_THEME.colors,
+  bar: "ascii",
+  spinner: "line",
+  prompt: {
+    question: "?",
+    answered: "+",
+    pointer: ">",
+    more: "...",
+  },
+}
+
+/** Chalk instances per color depth */
+const PAINTERS: Record<ColorDepth, ChalkInstance> = {
+  none: new Chalk({ level: 0 }),
+  "16": new Chalk({ level: 1 }),
+  "256": new Chalk({ level: 2 }),
+  truecolor: new Chalk({ level: 3 }),
+}
+
+/** Overrides from setTheme(), applied over the built-in theme */
+let globalOverrides: ThemeOverrides = {}
+/** The global theme, merged once per built-in theme */
+let globalTheme: { base: Theme; theme: Theme } | undefined
+
+/**
+ * Set the theme used by components without their own `theme` option
+ *
+ * Overrides are merged over the built-in theme (`ASCII_THEME` where a
+ * component's terminal lacks Unicode), so `setTheme({})` restores the
+ * defaults.
+ * Components read the theme when they are created.
+ *
+ * @example
+ * ```ts
+ * setTheme({
+ *   icons: { completed: "✓", failed: "✗" },
+ *   colors: { running: "magenta", bar: "magenta" },
+ *   spinner: "arc",
+ * })
+ * ```
+ */
+export function setTheme(overrides: ThemeOverrides): void {
+  globalOverrides = overrides
+  globalTheme = undefined
+}
+
+/**
+ * Get the global theme for a stream's terminal
+ */
+export function getTheme(stream: NodeJS.WriteStream = process.stdout): Theme {
+  const base = builtinTheme(stream)
+  if (globalTheme?.base !== base) {
+    globalTheme = { base, theme: mergeTheme(base, globalOverrides) }
+  }
+  return globalTheme.theme
+}
+
+/**
+ * Resolve a component's theme: its overrides over the global theme for the
+ * stream it writes to
+ */
+export function resolveTheme(
+  overrides?: ThemeOverrides,
+  stream: NodeJS.WriteStream = process.stdout,
+): Theme {
+  const theme = getTheme(stream)
+  return overrides ? mergeTheme(theme, overrides) : theme
+}
+
+/**
+ * Merge overrides over a theme, section by section
+ */
+export function mergeTheme(base: Theme, overrides: ThemeOverrides): Theme {
+  return {
+    icons: { ...base.icons, ...overrides.icons },
+    colors: { ...base.colors, ...overrides.colors },
+    bar: overrides.bar ?? base.bar,
+    spinner: overrides.spinner ?? base.spinner,
+    prompt: { ...base.prompt, ...overrides.prompt },
+  }
+}
+
+/**
+ * Color text with a chalk color or modifier name (`dim`, `bold`) at the
+ * color depth of the stream's terminal; unknown names leave it as is, and
+ * so do terminals without color and turning color off (`NO_COLOR`,
+ * accessible mode)
+ *
+ * @example
+ * ```ts
+ * colorize("✔", theme.colors.completed)
+ * colorize(" 120ms", "dim")
+ * ```
+ */
+export function colorize(
+  text: string,
+  color: string,
+  stream: NodeJS.WriteStream = process.stdout,
+): string {
+  if (!getAccessibility().color) {
+    return text
+  }
+  const depth = getCapabilities(stream).colors
+  if (depth === "none") {
+    return text
+  }
+  const colorFn = (PAINTERS[depth] as unknown as Record<string, unknown>)[color]
+  return typeof colorFn === "function"
+    ? (colorFn as (s: string) => string)(text)
+    : text
+}
+
+/**
+ * Built-in theme for a stream's terminal
+ */
+function builtinTheme(stream: NodeJS.WriteStream): Theme {
+  return getCapabilities(stream).unicode ? DEFAULT_THEME : ASCII_THEME
+}
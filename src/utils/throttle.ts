@@ -0,0 +1,91 @@
+/**
+ * Render throttling - limit how often a function runs without losing the
+ * last call
+ */
+
+/** Default minimum time between renders (ms), about 60 per second */
+export const DEFAULT_THROTTLE = 16
+
+/** Throttled function handle returned by createThrottle */
+export interface Throttle {
+  /** Run now if the interval has passed, otherwise once when it ends */
+  schedule(): void
+  /** Run a pending call right away */
+  flush(): void
+  /** Drop a pending call */
+  cancel(): void
+}
+
+/** Options for createThrottle */
+export interface ThrottleOptions {
+  /**
+   * Run the first call of an idle period right away (default: true); with
+   * `false` every run waits for the end of the interval
+   */
+  leading?: boolean
+}
+
+/**
+ * Throttle a function to run at most once per interval
+ *
+ * The first call runs immediately (leading edge); calls during the
+ * interval collapse into one run at its end (trailing edge), so the latest
+ * state is always drawn. Without the leading edge, a burst of calls runs
+ * once, when the interval ends.
+ *
+ * @param fn - Function to run (typically a render)
+ * @param interval - Minimum ms between runs; 0 runs every call
+ * @param options - Leading edge on or off
+ *
+ * @example
+ * ```ts
+ * const throttle = createThrottle(() => this.render(), 16)
+ * for (const file of files) {
+ *   current++
+ *   throttle.schedule() // at most ~60 renders per second
+ * }
+ * throttle.flush() // draw the final value now
+ * ```
+ */
+export function createThrottle(
+  fn: () => void,
+  interval: number,
+  options: ThrottleOptions = {},
+): Throttle {
+  const leading = options.leading ?? true
+  let lastRun = -Infinity
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const run = () => {
+    if (timer) {
+      clearTimeout(timer)
+      timer = null
+    }
+    lastRun = Date.now()
+    fn()
+  }
+
+  return {
+    schedule() {
+      if (timer) return
+
+      const wait = leading ? lastRun + interval - Date.now() : interval
+      if (wait <= 0) {
+        run()
+      } else {
+        timer = setTimeout(run, wait)
+      }
+    },
+
+    flush() {
+      if (timer) run()
+    },
+
+    cancel() {
+      if (timer) {
+        clearTimeout(timer)
+        timer = null
+      }
+    },
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Line prompts - questions answered with a typed line (accessible mode)
+ *
+ * Nothing is redrawn: each question is written once and the terminal echoes
+ * the answer, so a screen reader reads every prompt exactly once.
+ */
+
+import { write } from "../cli/ansi.js"
+
+/** Reads answers one line at a time */
+export interface LinePrompt {
+  /**
+   * Write a question and wait for the next typed line
+   *
+   * @throws "User cancelled" when input ends or Ctrl+C is pressed
+   */
+  ask(question: string): Promise<string>
+  /** Stop reading input */
+  close(): void
+}
+
+/**
+ * Read answers line by line from an input stream
+ *
+ * Hidden prompts (passwords) switch a TTY to raw mode and echo nothing
+ * until Enter; otherwise the terminal's own line editing is used.
+ *
+ * @example
+ * ```ts
+ * const prompt = createLinePrompt(process.stdout, process.stdin)
+ * const name = await prompt.ask("Name: ")
+ * prompt.close()
+ * ```
+ */
+export function createLinePrompt(
+  stream: NodeJS.WriteStream,
+  inputStream: NodeJS.ReadStream,
+  { hidden = false }: { hidden?: boolean } = {},
+): LinePrompt {
+  const lines: string[] = []
+  let partial = ""
+  let afterCR = false
+  let ended = false
+  let waiting: {
+    resolve: (line: string) => void
+    reject: (error: Error) => void
+  } | null = null
+
+  const deliver = () => {
+    if (!waiting) return
+    const pending = waiting
+    if (lines.length > 0) {
+      waiting = null
+      pending.resolve(lines.shift()!)
+    } else if (ended) {
+      waiting = null
+      pending.reject(new Error("User cancelled"))
+    }
+  }
+
+  const onData = (data: Buffer | string) => {
+    for (const char of data.toString()) {
+      // "\r\n" ends one line, not two
+      if (char === "\n" && afterCR) {
+        afterCR = false
+        continue
+      }
+      afterCR = char === "\r"
+
+      if (char === "\r" || char === "\n") {
+        if (hidden) write("\n", stream)
+        lines.push(partial)
+        partial = ""
+      } else if (char === "\x03") {
+        // Ctrl+C arrives as input only in raw mode
+        if (hidden) write("\n", stream)
+        ended = true
+      } else if (char === "\x7f" || char === "\b") {
+        partial = [...partial].slice(0, -1).join("")
+      } else {
+        partial += char
+      }
+    }
+    deliver()
+  }
+
+  const onEnd = () => {
+    ended = true
+    deliver()
+  }
+
+  const raw = hidden && inputStream.isTTY
+  if (raw) {
+    inputStream.setRawMode(true)
+  }
+  inputStream.on("data", onData)
+  inputStream.on("end", onEnd)
+  inputStream.resume()
+
+  return {
+    ask(question) {
+      write(question, stream)
+      return new Promise((resolve, reject) => {
+        waiting = { resolve, reject }
+        deliver()
+      })
+    },
+    close() {
+      inputStream.removeListener("data", onData)
+      inputStream.removeListener("end", onEnd)
+      if (raw) {
+        inputStream.setRawMode(false)
+      }
+      inputStream.pause()
+    },
+  }
+}
@@ -84,6 +84,7 @@ export async function withProgress<T>(
   const bar = new ProgressBar({
     format,
     phases: options.phases ?? {},
+    tokens: options.tokens,
     hideCursor: true,
   })
 
@@ -218,6 +219,7 @@ export function createProgressCallback(
   const bar = new ProgressBar({
     format,
     phases: options.phases ?? {},
+    tokens: options.tokens,
     hideCursor: true,
   })
 
@@ -2,7 +2,6 @@
  * withSelect - Interactive CLI selection list
  */
 
-import chalk from "chalk"
 import type { SelectOption, WithSelectOptions } from "../types.js"
 import {
   CURSOR_HIDE,
@@ -12,7 +11,12 @@ import {
   cursorUp,
   write,
   isTTY,
+  getTerminalWidth,
 } from "../cli/ansi.js"
+import { stringWidth, stripAnsi, truncate } from "../cli/text.js"
+import { colorize, resolveTheme } from "../utils/theme.js"
+import { isAccessibleMode } from "../utils/accessibility.js"
+import { createLinePrompt } from "./line-prompt.js"
 
 /**
  * Display an interactive selection list in the terminal
@@ -33,6 +37,9 @@ import {
  *   { initial: 2, maxVisible: 5 }
  * );
  * ```
+ *
+ * In accessible mode the options are listed once, numbered, and the choice
+ * is read as a typed number or label instead of moving a highlight.
  */
 export async function withSelect<T>(
   prompt: string,
@@ -40,14 +47,20 @@ export async function withSelect<T>(
   selectOptions: WithSelectOptions = {},
 ): Promise<T> {
   const { initial = 0, maxVisible = 10 } = selectOptions
-  const stream = process.stdout
-  const stdin = process.stdin
+  const stream = selectOptions.stream ?? process.stdout
+  const theme = resolveTheme(selectOptions.theme, stream)
+  const stdin = selectOptions.inputStream ?? process.stdin
 
   if (!isTTY(stream) || !stdin.isTTY) {
     // Non-interactive mode: return first option or initial
     return options[initial]?.value ?? options[0]!.value
   }
 
+  if (selectOptions.accessible ?? isAccessibleMode()) {
+    const start = Math.min(Math.max(0, initial), options.length - 1)
+    return askChoice(prompt, options, start, stream, stdin)
+  }
+
   return new Promise((resolve, reject) => {
     let highlightIndex = Math.min(Math.max(0, initial), options.length - 1)
     let linesRendered = 0
@@ -82,9 +95,12 @@ export async function withSelect<T>(
       const hasMoreAbove = scrollOffset > 0
       const hasMoreBelow = scrollOffset + visibleCount < options.length
 
+      // One row per line (labels are cut to fit, so none wraps)
+      const columns = getTerminalWidth(stream) - 1
+
       // Render prompt
       write(
-        `${CURSOR_TO_START}${chalk.bold(prompt)}${CLEAR_LINE_END}\n`,
+        `${CURSOR_TO_START}${colorize(truncate(prompt, columns), "bold", stream)}${CLEAR_LINE_END}\n`,
         stream,
       )
 
@@ -93,7 +109,7 @@ export async function withSelect<T>(
       // Render scroll indicator (above)
       if (hasMoreAbove) {
         write(
-          `${CURSOR_TO_START}  ${chalk.dim("...")}${CLEAR_LINE_END}\n`,
+          `${CURSOR_TO_START}  ${colorize(theme.prompt.more, "dim", stream)}${CLEAR_LINE_END}\n`,
           stream,
         )
         lines++
@@ -105,8 +121,15 @@ export async function withSelect<T>(
         const actualIndex = scrollOffset + i
         const isHighlighted = actualIndex === highlightIndex
 
-        const indicator = isHighlighted ? chalk.cyan(">") : " "
-        const label = isHighlighted ? chalk.cyan(option!.label) : option!.label
+        const { accent } = theme.colors
+        const indicator = isHighlighted
+          ? colorize(theme.prompt.pointer, accent, stream)
+          : " ".repeat(stringWidth(theme.prompt.pointer))
+        const fitted = truncate(
+          option!.label,
+          columns - stringWidth(theme.prompt.pointer) - 1,
+        )
+        const label = isHighlighted ? colorize(fitted, accent, stream) : fitted
 
         write(
           `${CURSOR_TO_START}${indicator} ${label}${CLEAR_LINE_END}\n`,
@@ -118,7 +141,7 @@ export async function withSelect<T>(
       // Render scroll indicator (below)
       if (hasMoreBelow) {
         write(
-          `${CURSOR_TO_START}  ${chalk.dim("...")}${CLEAR_LINE_END}\n`,
+          `${CURSOR_TO_START}  ${colorize(theme.prompt.more, "dim", stream)}${CLEAR_LINE_END}\n`,
           stream,
         )
         lines++
@@ -199,6 +222,50 @@ export async function withSelect<T>(
   })
 }
 
+/**
+ * Accessible select: list numbered options once, then read a number or a
+ * label until it matches one
+ */
+async function askChoice<T>(
+  prompt: string,
+  options: SelectOption<T>[],
+  initial: number,
+  stream: NodeJS.WriteStream,
+  stdin: NodeJS.ReadStream,
+): Promise<T> {
+  write(`${prompt}\n`, stream)
+  options.forEach((option, i) => {
+    write(`${i + 1}. ${option.label}\n`, stream)
+  })
+
+  const lines = createLinePrompt(stream, stdin)
+  try {
+    for (;;) {
+      const answer = (
+        await lines.ask(
+          `Choose 1-${options.length} (default: ${initial + 1}): `,
+        )
+      ).trim()
+      const option =
+        answer === ""
+          ? options[initial]
+          : /^\d+$/.test(answer)
+            ? options[Number(answer) - 1]
+            : options.find(
+                ({ label }) =>
+                  stripAnsi(label).toLowerCase() === answer.toLowerCase(),
+              )
+      if (option) {
+        write(`Selected: ${option.label}\n`, stream)
+        return option.value
+      }
+      write(`Enter a number from 1 to ${options.length}\n`, stream)
+    }
+  } finally {
+    lines.close()
+  }
+}
+
 /**
  * Create a reusable select instance for multiple selections
  *
@@ -12,6 +12,9 @@ import {
   write,
   isTTY,
 } from "../cli/ansi.js"
+import { colorize, resolveTheme } from "../utils/theme.js"
+import { isAccessibleMode } from "../utils/accessibility.js"
+import { createLinePrompt } from "./line-prompt.js"
 
 /**
  * Prompt for text input in the terminal
@@ -34,6 +37,10 @@ import {
  *   autocomplete: ["apple", "banana", "cherry"]
  * });
  * ```
+ *
+ * In accessible mode the question is written once and a typed line is read
+ * (terminal echo, no redraws); a failed validation prints the error and
+ * asks again.
  */
 export async function withTextInput(
   prompt: string,
@@ -42,6 +49,12 @@ export async function withTextInput(
   const stream = options.stream ?? process.stdout
   const inputStream = options.inputStream ?? process.stdin
   const isTty = isTTY(stream)
+  const theme = resolveTheme(options.theme, stream)
+  const question = colorize(theme.prompt.question, theme.colors.accent, stream)
+
+  if (options.accessible ?? isAccessibleMode()) {
+    return askLine(prompt, options, stream, inputStream)
+  }
 
   // Initialize state
   let value = options.defaultValue ?? ""
@@ -62,7 +75,7 @@ export async function withTextInput(
 
     const suggestion = getAutocompleteSuggestion(value, options.autocomplete)
     const suggestionSuffix = suggestion
-      ? chalk.dim(suggestion.slice(value.length))
+      ? colorize(suggestion.slice(value.length), "dim", stream)
       : ""
 
     // Build cursor display
@@ -73,16 +86,18 @@ export async function withTextInput(
     // Placeholder when empty
     const showPlaceholder = !value && options.placeholder
     const inputDisplay = showPlaceholder
-      ? chalk.dim(options.placeholder) + chalk.inverse(" ")
+      ? colorize(options.placeholder!, "dim", stream) + chalk.inverse(" ")
       : beforeCursor +
         chalk.inverse(cursorChar) +
         afterCursor +
         suggestionSuffix
 
     // Error message
-    const errorDisplay = errorMessage ? chalk.red(` (${errorMessage})`) : ""
+    const errorDisplay = errorMessage
+      ? colorize(` (${errorMessage})`, theme.colors.failed, stream)
+      : ""
 
-    const line = `${chalk.cyan("?")} ${chalk.bold(prompt)} ${inputDisplay}${errorDisplay}`
+    const line = `${question} ${colorize(prompt, "bold", stream)} ${inputDisplay}${errorDisplay}`
 
     if (isTty) {
       write(`${CURSOR_TO_START}${line}${CLEAR_LINE_END}`, stream)
@@ -127,7 +142,7 @@ export async function withTextInput(
         ? options.mask.repeat(value.length)
         : value
       write(
-        `${CURSOR_TO_START}${chalk.green("✔")} ${chalk.bold(prompt)} ${chalk.dim(displayValue)}${CLEAR_LINE_END}\n`,
+        `${CURSOR_TO_START}${colorize(theme.prompt.answered, theme.colors.completed, stream)} ${colorize(prompt, "bold", stream)} ${colorize(displayValue, "dim", stream)}${CLEAR_LINE_END}\n`,
         stream,
       )
 
@@ -315,6 +330,7 @@ export function createTextInput(
 ): TextInputInstance {
   const stream = options.stream ?? process.stdout
   const isTty = isTTY(stream)
+  const theme = resolveTheme(options.theme, stream)
 
   let value = options.defaultValue ?? ""
   let cursorPosition = value.length
@@ -326,7 +342,7 @@ export function createTextInput(
 
     const suggestion = getAutocompleteSuggestion(value, options.autocomplete)
     const suggestionSuffix = suggestion
-      ? chalk.dim(suggestion.slice(value.length))
+      ? colorize(suggestion.slice(value.length), "dim", stream)
       : ""
 
     const beforeCursor = displayValue.slice(0, cursorPosition)
@@ -335,13 +351,18 @@ export function createTextInput(
 
     const showPlaceholder = !value && options.placeholder
     const inputDisplay = showPlaceholder
-      ? chalk.dim(options.placeholder) + chalk.inverse(" ")
+      ? colorize(options.placeholder!, "dim", stream) + chalk.inverse(" ")
       : beforeCursor +
         chalk.inverse(cursorChar) +
         afterCursor +
         suggestionSuffix
 
-    const line = `${chalk.cyan("?")} ${chalk.bold(prompt)} ${inputDisplay}`
+    const question = colorize(
+      theme.prompt.question,
+      theme.colors.accent,
+      stream,
+    )
+    const line = `${question} ${colorize(prompt, "bold", stream)} ${inputDisplay}`
 
     if (isTty) {
       write(`${CURSOR_TO_START}${line}${CLEAR_LINE_END}`, stream)
@@ -413,6 +434,39 @@ export interface TextInputInstance {
   acceptSuggestion(): void
 }
 
+/**
+ * Accessible prompt: ask, then ask again after each validation error
+ */
+async function askLine(
+  prompt: string,
+  options: TextInputOptions,
+  stream: NodeJS.WriteStream,
+  inputStream: NodeJS.ReadStream,
+): Promise<string> {
+  const hint = options.defaultValue
+    ? ` (default: ${options.defaultValue})`
+    : options.placeholder
+      ? ` (${options.placeholder})`
+      : ""
+  const lines = createLinePrompt(stream, inputStream, {
+    hidden: Boolean(options.mask),
+  })
+
+  try {
+    for (;;) {
+      const answer =
+        (await lines.ask(`${prompt}${hint} `)) || (options.defaultValue ?? "")
+      const error = options.validate?.(answer)
+      if (!error) {
+        return answer
+      }
+      write(`Error: ${error}\n`, stream)
+    }
+  } finally {
+    lines.close()
+  }
+}
+
 /**
  * Find a matching autocomplete suggestion for the current input
  */
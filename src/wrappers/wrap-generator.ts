@@ -5,6 +5,7 @@
 import type { ProgressGenerator } from "../types.js"
 import { ProgressBar } from "../cli/progress-bar.js"
 import { CURSOR_HIDE, CURSOR_SHOW, write, isTTY } from "../cli/ansi.js"
+import { escapeTemplate } from "../cli/template.js"
 
 /**
  * Consume a progress generator while displaying progress
@@ -14,7 +15,7 @@ import { CURSOR_HIDE, CURSOR_SHOW, write, isTTY } from "../cli/ansi.js"
  * // Wrap existing generator (like evaluateAllRules())
  * await wrapGenerator(evaluateAllRules(), "Evaluating rules");
  *
- * // With custom format
+ * // With custom text (shown after the count)
  * await wrapGenerator(
  *   processItems(),
  *   ({ current, total }) => `Processing: ${current}/${total}`
@@ -34,15 +35,23 @@ export async function wrapGenerator<T>(
   const stream = process.stdout
   const isTty = isTTY(stream)
 
-  const isCustomFormat = typeof textOrFormat === "function"
-  const label = isCustomFormat ? "" : textOrFormat
-
-  const bar = new ProgressBar({
-    format: label
-      ? `${label} [:bar] :current/:total :percent`
-      : ":bar :current/:total :percent",
-    hideCursor: true,
-  })
+  // Custom text is a token so it's computed on every render
+  const bar =
+    typeof textOrFormat === "function"
+      ? new ProgressBar({
+          format: ":bar :current/:total :percent :text",
+          tokens: {
+            text: ({ current, total }) =>
+              textOrFormat({ current, total: total ?? 0 }),
+          },
+          hideCursor: true,
+        })
+      : new ProgressBar({
+          format: textOrFormat
+            ? `${escapeTemplate(textOrFormat)} [:bar] :current/:total :percent`
+            : ":bar :current/:total :percent",
+          hideCursor: true,
+        })
 
   if (isTty) {
     write(CURSOR_HIDE, stream)
@@ -93,6 +102,9 @@ export async function wrapGenerator<T>(
 /**
  * Create an async iterable wrapper that shows progress
  *
+ * Arrays show a normal bar; for other iterables the length is unknown, so
+ * the bar is indeterminate and shows the count and elapsed time.
+ *
  * @example
  * ```ts
  * const items = [1, 2, 3, 4, 5];
@@ -111,10 +123,11 @@ export async function* withIterableProgress<T>(
 
   // Try to get length if array
   const items = Array.isArray(iterable) ? iterable : null
-  const total = items?.length ?? 0
+  const total = items?.length
 
   const bar = new ProgressBar({
-    format: `${label} [:bar] :current/:total :percent`,
+    format: `${escapeTemplate(label)} [:bar] :current/:total :percent`,
+    indeterminateFormat: `${escapeTemplate(label)} [:bar] :current | :elapsed`,
     total,
     hideCursor: true,
   })
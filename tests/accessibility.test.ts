@@ -0,0 +1,287 @@
+/**
+ * Tests for accessible mode: environment detection, announcements and
+ * non-redrawing components
+ */
+
+import { describe, it, expect, afterEach } from "vitest"
+import {
+  detectAccessibility,
+  formatAnnouncement,
+  getAccessibility,
+  isAccessibleMode,
+  setAccessibleMode,
+} from "../src/utils/accessibility.js"
+import { colorize } from "../src/utils/theme.js"
+import { Spinner } from "../src/cli/spinner.js"
+import { ProgressBar } from "../src/cli/progress-bar.js"
+import { MultiProgress } from "../src/cli/multi-progress.js"
+import { withTextInput } from "../src/wrappers/with-text-input.js"
+import { withSelect } from "../src/wrappers/with-select.js"
+import { createTTY } from "./helpers.js"
+
+/** Let queued stream events run */
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+afterEach(() => {
+  setAccessibleMode(undefined)
+})
+
+describe("detectAccessibility", () => {
+  it("allows color and motion by default", () => {
+    expect(detectAccessibility({ TERM: "xterm-256color" })).toEqual({
+      color: true,
+      motion: true,
+    })
+  })
+
+  it("turns color off with NO_COLOR", () => {
+    expect(detectAccessibility({ NO_COLOR: "1" })).toEqual({
+      color: false,
+      motion: true,
+    })
+    expect(detectAccessibility({ NO_COLOR: "" }).color).toBe(true)
+  })
+
+  it("turns color and motion off on a dumb terminal", () => {
+    expect(detectAccessibility({ TERM: "dumb" })).toEqual({
+      color: false,
+      motion: false,
+    })
+  })
+
+  it("turns motion off with REDUCED_MOTION", () => {
+    expect(detectAccessibility({ REDUCED_MOTION: "1" }).motion).toBe(false)
+    expect(detectAccessibility({ REDUCED_MOTION: "0" }).motion).toBe(true)
+    expect(detectAccessibility({ REDUCED_MOTION: "false" }).motion).toBe(true)
+  })
+})
+
+describe("setAccessibleMode", () => {
+  it("disables color and animation globally", () => {
+    setAccessibleMode(true)
+    expect(getAccessibility()).toEqual({ color: false, motion: false })
+    expect(isAccessibleMode()).toBe(true)
+    expect(colorize("done", "green")).toBe("done")
+
+    setAccessibleMode(false)
+    expect(isAccessibleMode()).toBe(false)
+  })
+})
+
+describe("formatAnnouncement", () => {
+  it("words state changes as sentences", () => {
+    expect(formatAnnouncement("started", "Parse markdown")).toBe(
+      "Started: Parse markdown",
+    )
+    expect(formatAnnouncement("completed", "Parse markdown", 1234)).toBe(
+      "Completed in 1.2s: Parse markdown",
+    )
+    expect(formatAnnouncement("completed", undefined, 1234)).toBe(
+      "Completed in 1.2s",
+    )
+  })
+})
+
+describe("accessible Spinner", () => {
+  it("announces start, text changes and the result once", () => {
+    const { stream, output } = createTTY()
+    const spinner = new Spinner({
+      text: "Parse markdown",
+      stream: stream as any,
+      accessible: true,
+    })
+
+    spinner.start()
+    spinner.currentText = "Parse markdown (12 files)"
+    spinner.currentText = "Parse markdown (12 files)"
+    spinner.fail("Parse markdown")
+
+    expect((spinner as any).stopAnimation).toBeNull()
+    expect(output()).toMatch(
+      /^Started: Parse markdown\nParse markdown \(12 files\)\nFailed in \d+ms: Parse markdown\n$/,
+    )
+  })
+
+  it("follows the global mode", () => {
+    setAccessibleMode(true)
+    const { stream, output } = createTTY()
+    const spinner = new Spinner({ text: "Sync", stream: stream as any })
+
+    spinner.start()
+    spinner.info("Nothing to sync")
+
+    expect(output()).toBe("Started: Sync\nInfo: Nothing to sync\n")
+  })
+})
+
+describe("accessible ProgressBar", () => {
+  it("announces start, each quarter and completion without redrawing", () => {
+    const { stream, output } = createTTY()
+    const bar = new ProgressBar({
+      total: 100,
+      stream: stream as any,
+      accessible: true,
+    })
+
+    bar.start()
+    bar.update(10)
+    bar.update(30)
+    bar.update(60)
+    bar.update(99)
+    bar.update(100)
+    bar.stop()
+
+    expect(output()).toMatch(
+      /^Started\n25% complete\n50% complete\n75% complete\nCompleted in \d+ms\n$/,
+    )
+  })
+
+  it("announces phases and where an unfinished bar stopped", () => {
+    const { stream, output } = createTTY()
+    const bar = new ProgressBar({
+      total: 10,
+      stream: stream as any,
+      phases: { parse: "Parsing markdown" },
+      accessible: true,
+    })
+
+    bar.start()
+    bar.setPhase("parse", { current: 0, total: 4 })
+    bar.update(1)
+    bar.stop()
+
+    expect(output()).toBe(
+      "Started\nStarted: Parsing markdown\n25% complete\nStopped at 25%\n",
+    )
+  })
+})
+
+describe("without color", () => {
+  it("leaves dim and bold text unstyled", () => {
+    const noColor = process.env.NO_COLOR
+    process.env.NO_COLOR = "1"
+    setAccessibleMode(undefined)
+
+    try {
+      const { stream, output } = createTTY()
+      const multi = new MultiProgress(stream as any, { mode: "live" })
+      const build = multi.add("Build")
+
+      multi.start()
+      build.start()
+      build.complete(1234)
+      multi.stop()
+
+      expect(colorize("Slowest steps", "bold")).toBe("Slowest steps")
+      expect(output()).toContain("Build 1234ms")
+      expect(output()).not.toMatch(/\x1b\[(1|2|22)m/)
+    } finally {
+      if (noColor === undefined) delete process.env.NO_COLOR
+      else process.env.NO_COLOR = noColor
+    }
+  })
+})
+
+describe("accessible MultiProgress", () => {
+  it("prints each transition once as a sentence", () => {
+    const { stream, output } = createTTY()
+    const multi = new MultiProgress(stream as any, { accessible: true })
+    const parse = multi.add("Parse markdown")
+    const upload = multi.add("Upload")
+    const index = multi.add("Index")
+
+    multi.start()
+    parse.start()
+    parse.update(5)
+    parse.complete(1234)
+    upload.start()
+    upload.fail(undefined, new Error("Network down"))
+    index.skip()
+    multi.stop()
+
+    expect(output()).toBe(
+      [
+        "Started: Parse markdown",
+        "Completed in 1.2s: Parse markdown",
+        "Started: Upload",
+        "Failed: Upload (Network down)",
+        "Skipped: Index",
+        "",
+      ].join("\n"),
+    )
+  })
+})
+
+describe("accessible prompts", () => {
+  it("withTextInput asks again after a validation error", async () => {
+    const { stream, output } = createTTY()
+    const input = createTTY().stream
+
+    const answer = withTextInput("Email:", {
+      stream: stream as any,
+      inputStream: input as any,
+      validate: (value) => (value.includes("@") ? undefined : "Invalid email"),
+      accessible: true,
+    })
+    input.write("nobody\n")
+    await tick()
+    input.write("me@example.com\n")
+
+    expect(await answer).toBe("me@example.com")
+    expect(output()).toBe("Email: Error: Invalid email\nEmail: ")
+  })
+
+  it("withTextInput uses the default for an empty answer", async () => {
+    const { stream } = createTTY()
+    const input = createTTY().stream
+
+    const answer = withTextInput("Name:", {
+      stream: stream as any,
+      inputStream: input as any,
+      defaultValue: "km",
+      accessible: true,
+    })
+    input.write("\r\n")
+
+    expect(await answer).toBe("km")
+  })
+
+  it("withSelect lists numbered options and reads a number or label", async () => {
+    const { stream, output } = createTTY()
+    const input = createTTY().stream
+    const colors = [
+      { label: "Red", value: "red" },
+      { label: "Green", value: "green" },
+    ]
+
+    const answer = withSelect("Choose a color:", colors, {
+      stream: stream as any,
+      inputStream: input as any,
+      accessible: true,
+    })
+    input.write("7\n")
+    await tick()
+    input.write("green\n")
+
+    expect(await answer).toBe("green")
+    expect(output()).toBe(
+      "Choose a color:\n1. Red\n2. Green\n" +
+        "Choose 1-2 (default: 1): Enter a number from 1 to 2\n" +
+        "Choose 1-2 (default: 1): Selected: Green\n",
+    )
+  })
+
+  it("rejects when input ends before an answer", async () => {
+    const { stream } = createTTY()
+    const input = createTTY().stream
+
+    const answer = withTextInput("Name:", {
+      stream: stream as any,
+      inputStream: input as any,
+      accessible: true,
+    })
+    input.end()
+
+    await expect(answer).rejects.toThrow("User cancelled")
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Tests for shared progress bar drawing
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  BAR_STYLES,
+  renderBar,
+  renderIndeterminateBar,
+  renderStackedBar,
+  resolveBarStyle,
+  resolveSegments,
+} from "../src/utils/bar.js"
+
+describe("renderBar", () => {
+  it("rounds block bars to whole cells", () => {
+    expect(renderBar(0.5, 10)).toEqual({
+      filled: "█████",
+      empty: "░░░░░",
+    })
+    expect(renderBar(0.52, 10).filled).toBe("█████")
+  })
+
+  it("draws eighth-block partial cells", () => {
+    expect(renderBar(0.55, 8, "smooth")).toEqual({
+      filled: "████▍",
+      empty: "   ",
+    })
+    // 1/80 of a 10-wide bar is one eighth of a cell
+    expect(renderBar(1 / 80, 10, "smooth").filled).toBe("▏")
+  })
+
+  it("draws braille partial cells", () => {
+    expect(renderBar(0.25, 2, "braille").filled).toBe("⡇")
+  })
+
+  it("draws an ascii head at the edge of the fill", () => {
+    expect(renderBar(0.5, 10, "ascii")).toEqual({
+      filled: "====>",
+      empty: "     ",
+    })
+    expect(renderBar(0, 4, "ascii").filled).toBe("")
+    expect(renderBar(1, 4, "ascii").filled).toBe("====")
+  })
+
+  it("accepts custom glyphs", () => {
+    const bar = renderBar(0.5, 6, { fill: "#", empty: ".", head: "@" })
+    expect(bar.filled + bar.empty).toBe("##@...")
+  })
+
+  it("keeps the bar width for any ratio", () => {
+    for (const style of Object.keys(
+      BAR_STYLES,
+    ) as (keyof typeof BAR_STYLES)[]) {
+      for (const ratio of [-1, 0, 0.01, 0.33, 0.999, 1, 2, NaN]) {
+        const { filled, empty } = renderBar(ratio, 12, style)
+        expect([...filled, ...empty]).toHaveLength(12)
+      }
+    }
+  })
+})
+
+describe("renderIndeterminateBar", () => {
+  it("bounces a quarter-width segment end to end", () => {
+    expect(renderIndeterminateBar(0, 8)).toBe("██░░░░░░")
+    expect(renderIndeterminateBar(3, 8)).toBe("░░░██░░░")
+    expect(renderIndeterminateBar(6, 8)).toBe("░░░░░░██")
+    expect(renderIndeterminateBar(7, 8)).toBe("░░░░░██░")
+    expect(renderIndeterminateBar(12, 8)).toBe("██░░░░░░")
+  })
+
+  it("uses the style's glyphs", () => {
+    expect(renderIndeterminateBar(1, 4, "ascii")).toBe(" =  ")
+  })
+})
+
+describe("resolveBarStyle", () => {
+  it("applies overrides on top of a named style", () => {
+    expect(resolveBarStyle("block", { fill: "=", empty: undefined })).toEqual({
+      fill: "=",
+      empty: "░",
+    })
+  })
+
+  it("defaults to the block style", () => {
+    expect(resolveBarStyle()).toEqual(BAR_STYLES.block)
+  })
+})
+
+describe("renderStackedBar", () => {
+  it("splits the fill into consecutive segments", () => {
+    expect(renderStackedBar([5, 2, 1], 10, 10)).toEqual({
+      segments: ["█████", "██", "█"],
+      empty: "░░",
+    })
+  })
+
+  it("keeps segments adding up to the rounded fill", () => {
+    const { segments, empty } = renderStackedBar([1, 1, 1], 3, 4)
+    expect(segments.join("").length + empty.length).toBe(4)
+    expect(empty).toBe("")
+  })
+
+  it("cuts off values past the total", () => {
+    expect(renderStackedBar([8, 4], 10, 10, "ascii")).toEqual({
+      segments: ["========", "=="],
+      empty: "",
+    })
+  })
+})
+
+describe("resolveSegments", () => {
+  it("assigns default colors in order and keeps explicit ones", () => {
+    expect(
+      resolveSegments([
+        "succeeded",
+        "failed",
+        { name: "skipped", color: "gray" },
+      ]),
+    ).toEqual([
+      { name: "succeeded", color: "green" },
+      { name: "failed", color: "red" },
+      { name: "skipped", color: "gray" },
+    ])
+  })
+})
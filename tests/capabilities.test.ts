@@ -0,0 +1,181 @@
+/**
+ * Tests for terminal capability detection
+ */
+
+import { describe, it, expect, afterEach } from "vitest"
+import {
+  detectCapabilities,
+  getCapabilities,
+  hyperlink,
+  setCapabilities,
+  SYNC_START,
+  SYNC_END,
+} from "../src/utils/capabilities.js"
+import {
+  ASCII_THEME,
+  colorize,
+  getTheme,
+  resolveTheme,
+} from "../src/utils/theme.js"
+import { setAccessibleMode } from "../src/utils/accessibility.js"
+import { MultiProgress } from "../src/cli/multi-progress.js"
+import { Spinner } from "../src/cli/spinner.js"
+import { ProgressBar } from "../src/cli/progress-bar.js"
+import { createPipe, createTTY } from "./helpers.js"
+
+/** Any SGR (color or style) escape code */
+const SGR = /\x1b\[[0-9;]*m/
+
+afterEach(() => {
+  setCapabilities(undefined)
+  setAccessibleMode(undefined)
+})
+
+describe("detectCapabilities", () => {
+  const tty = () => createTTY().stream
+  const pipe = () => createPipe().stream
+
+  it("reads color depth from COLORTERM and TERM", () => {
+    expect(detectCapabilities(tty(), { COLORTERM: "truecolor" }).colors).toBe(
+      "truecolor",
+    )
+    expect(detectCapabilities(tty(), { TERM: "xterm-256color" }).colors).toBe(
+      "256",
+    )
+    expect(detectCapabilities(tty(), { TERM: "xterm" }).colors).toBe("16")
+    expect(detectCapabilities(tty(), { TERM: "dumb" }).colors).toBe("none")
+  })
+
+  it("has no color when not a terminal", () => {
+    expect(detectCapabilities(pipe(), { TERM: "xterm" }).colors).toBe("none")
+  })
+
+  it("reads FORCE_TTY from the given environment", () => {
+    expect(detectCapabilities(pipe(), {}).tty).toBe(false)
+    expect(detectCapabilities(pipe(), { FORCE_TTY: "1" }).tty).toBe(true)
+    expect(detectCapabilities(tty(), {}).tty).toBe(true)
+  })
+
+  it("honors NO_COLOR, with FORCE_COLOR taking precedence", () => {
+    const env = { TERM: "xterm-256color", NO_COLOR: "1" }
+    expect(detectCapabilities(tty(), env).colors).toBe("none")
+    expect(detectCapabilities(tty(), { ...env, FORCE_COLOR: "3" }).colors).toBe(
+      "truecolor",
+    )
+    expect(detectCapabilities(pipe(), { FORCE_COLOR: "1" }).colors).toBe("16")
+    expect(detectCapabilities(tty(), { FORCE_COLOR: "0" }).colors).toBe("none")
+  })
+
+  it("falls back to ASCII on the Linux console", () => {
+    expect(detectCapabilities(tty(), { TERM: "linux" }).unicode).toBe(false)
+    if (process.platform !== "win32") {
+      expect(detectCapabilities(tty(), { TERM: "xterm" }).unicode).toBe(true)
+    }
+  })
+
+  it("detects hyperlinks and synchronized output by terminal", () => {
+    const kitty = detectCapabilities(tty(), { TERM: "xterm-kitty" })
+    expect(kitty.hyperlinks).toBe(true)
+    expect(kitty.synchronizedOutput).toBe(true)
+
+    const plain = detectCapabilities(tty(), { TERM: "xterm" })
+    expect(plain.hyperlinks).toBe(false)
+    expect(plain.synchronizedOutput).toBe(false)
+
+    expect(
+      detectCapabilities(pipe(), { TERM: "xterm-kitty" }).synchronizedOutput,
+    ).toBe(false)
+  })
+
+  it("detects CI, where links are not clickable", () => {
+    const ci = detectCapabilities(tty(), { CI: "true", TERM: "xterm-kitty" })
+    expect(ci.ci).toBe(true)
+    expect(ci.hyperlinks).toBe(false)
+    expect(detectCapabilities(tty(), { CI: "false" }).ci).toBe(false)
+    expect(detectCapabilities(tty(), { GITHUB_ACTIONS: "true" }).ci).toBe(true)
+  })
+})
+
+describe("getCapabilities", () => {
+  it("applies overrides over detection", () => {
+    const { stream } = createTTY()
+    const detected = getCapabilities(stream)
+
+    setCapabilities({ unicode: false })
+    expect(getCapabilities(stream)).toEqual({ ...detected, unicode: false })
+
+    setCapabilities(undefined)
+    expect(getCapabilities(stream)).toBe(detected)
+  })
+})
+
+describe("hyperlink", () => {
+  it("uses OSC 8 where supported and shows the URL otherwise", () => {
+    setCapabilities({ hyperlinks: true })
+    expect(hyperlink("docs", "https://example.com")).toBe(
+      "\x1b]8;;https://example.com\x1b\\docs\x1b]8;;\x1b\\",
+    )
+
+    setCapabilities({ hyperlinks: false })
+    expect(hyperlink("docs", "https://example.com")).toBe(
+      "docs (https://example.com)",
+    )
+  })
+})
+
+describe("adapting output", () => {
+  it("uses the ASCII theme without Unicode", () => {
+    setCapabilities({ unicode: false })
+
+    expect(getTheme()).toEqual(ASCII_THEME)
+    expect(resolveTheme({ icons: { failed: "X" } }).icons.completed).toBe("+")
+    expect(getTheme().spinner).toBe("line")
+    expect(getTheme().bar).toBe("ascii")
+  })
+
+  it("colors at the terminal's depth and not at all without color", () => {
+    // Color allowed by preference; the terminal decides
+    setAccessibleMode(false)
+
+    setCapabilities({ colors: "16" })
+    expect(colorize("done", "green")).toBe("\x1b[32mdone\x1b[39m")
+
+    setCapabilities({ colors: "none" })
+    expect(colorize("done", "green")).toBe("done")
+
+    const { stream, output } = createTTY()
+    const spinner = new Spinner({ text: "Sync", stream })
+    spinner.start()
+    spinner.succeed("Synced")
+
+    expect(output()).toContain("Synced")
+    expect(output()).not.toMatch(SGR)
+  })
+
+  it("wraps spinner and bar frames in synchronized output", () => {
+    setCapabilities({ synchronizedOutput: true })
+    const spinner = createTTY()
+    new Spinner({ text: "Sync", stream: spinner.stream }).start().stop()
+    const bar = createTTY()
+    new ProgressBar({ total: 2, stream: bar.stream }).start().stop()
+
+    expect(spinner.output()).toContain(SYNC_START)
+    expect(bar.output()).toContain(SYNC_START)
+    expect(bar.output()).toContain(SYNC_END)
+  })
+
+  it("wraps live frames in synchronized output where supported", () => {
+    setCapabilities({ synchronizedOutput: true })
+    const { stream, output } = createTTY()
+    const multi = new MultiProgress(stream, { mode: "live" })
+    multi.add("Build").start()
+
+    multi.start()
+    multi.stop()
+
+    expect(output()).toContain(SYNC_START)
+    expect(output().indexOf(SYNC_END)).toBeGreaterThan(
+      output().indexOf(SYNC_START),
+    )
+  })
+})
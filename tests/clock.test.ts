@@ -0,0 +1,90 @@
+/**
+ * Tests for the shared animation clock
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  createAnimationClock,
+  createManualTicker,
+  frameAt,
+} from "../src/utils/clock.js"
+import { Spinner } from "../src/cli/spinner.js"
+import { createTTY } from "./helpers.js"
+
+describe("createAnimationClock", () => {
+  it("ticks at the shortest subscribed interval", () => {
+    const ticker = createManualTicker()
+    const clock = createAnimationClock(ticker)
+    let fast = 0
+    let slow = 0
+
+    const stopSlow = clock.subscribe(100, () => slow++)
+    ticker.advance(200)
+    expect(slow).toBe(2)
+
+    const stopFast = clock.subscribe(50, () => fast++)
+    ticker.advance(200)
+    expect(fast).toBe(4)
+    expect(slow).toBe(6)
+
+    stopFast()
+    stopSlow()
+  })
+
+  it("stops the timer when nothing is subscribed", () => {
+    const ticker = createManualTicker()
+    let scheduled = 0
+    const clock = createAnimationClock({
+      now: ticker.now,
+      schedule(tick, interval) {
+        scheduled++
+        return ticker.schedule(tick, interval)
+      },
+    })
+    let ticks = 0
+
+    expect(clock.active).toBe(false)
+    const stop = clock.subscribe(80, () => ticks++)
+    expect(clock.active).toBe(true)
+    stop()
+    expect(clock.active).toBe(false)
+
+    ticker.advance(1000)
+    expect(ticks).toBe(0)
+    expect(scheduled).toBe(1)
+  })
+})
+
+describe("frameAt", () => {
+  it("loops over the frames at the interval", () => {
+    expect(frameAt(0, 4, 100)).toBe(0)
+    expect(frameAt(250, 4, 100)).toBe(2)
+    expect(frameAt(450, 4, 100)).toBe(0)
+  })
+})
+
+describe("Spinner on a shared clock", () => {
+  it("keeps spinners started at different times in phase", () => {
+    const ticker = createManualTicker()
+    const clock = createAnimationClock(ticker)
+    const style = { frames: ["1", "2", "3", "4"], interval: 100 }
+    const a = createTTY()
+    const b = createTTY()
+
+    const first = new Spinner({ style, clock, stream: a.stream as any })
+    first.start()
+    ticker.advance(130)
+    const second = new Spinner({ style, clock, stream: b.stream as any })
+    second.start()
+    expect(a.last()).toContain("2")
+    expect(b.last()).toContain("2")
+
+    ticker.advance(100)
+    expect(a.last()).toContain("3")
+    expect(b.last()).toContain("3")
+
+    first.stop()
+    second.stop()
+    expect(clock.active).toBe(false)
+  })
+})
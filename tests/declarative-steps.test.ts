@@ -3,8 +3,15 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from "vitest"
-import { steps, step, type StepContext } from "../src/progress/steps.js"
+import {
+  steps,
+  step,
+  parallel,
+  retry,
+  type StepContext,
+} from "../src/progress/steps.js"
 import { generateLabel, parseStepsDef } from "../src/progress/step-node.js"
+import type { ProgressEvent } from "../src/types.js"
 
 // Capture stdout to silence spinner output
 let originalWrite: typeof process.stdout.write
@@ -182,6 +189,378 @@ describe("declarative steps()", () => {
   })
 })
 
+describe("parallel groups", () => {
+  const delay = (ms: number) => new Promise((r) => setTimeout(r, ms))
+
+  it("parses the parallel marker onto the group node", () => {
+    const nodes = parseStepsDef({
+      fetchAll: parallel({ a: () => 1, b: () => 2 }, { concurrency: 1 }),
+    })
+
+    expect(nodes[0]!.parallel).toEqual({ concurrency: 1 })
+    expect(nodes[0]!.children).toHaveLength(2)
+  })
+
+  it("runs leaves concurrently and keeps results under their keys", async () => {
+    let running = 0
+    let maxRunning = 0
+    const fetch = (value: string) => async () => {
+      running++
+      maxRunning = Math.max(maxRunning, running)
+      await delay(10)
+      running--
+      return value
+    }
+
+    const results = await steps({
+      fetchAll: parallel({
+        fetchUsers: fetch("users"),
+        fetchPosts: fetch("posts"),
+        fetchTags: fetch("tags"),
+      }),
+    }).run({ clear: true })
+
+    expect(maxRunning).toBe(3)
+    expect((results as any).fetchUsers).toBe("users")
+    expect((results as any).fetchPosts).toBe("posts")
+    expect((results as any).fetchTags).toBe("tags")
+  })
+
+  it("respects the concurrency limit", async () => {
+    let running = 0
+    let maxRunning = 0
+    const work = async () => {
+      running++
+      maxRunning = Math.max(maxRunning, running)
+      await delay(5)
+      running--
+    }
+
+    await steps({
+      group: parallel(
+        { a: work, b: work, c: work, d: work },
+        { concurrency: 2 },
+      ),
+    }).run({ clear: true })
+
+    expect(maxRunning).toBe(2)
+  })
+
+  it("waits for running leaves to settle before rethrowing", async () => {
+    let slowFinished = false
+
+    const runner = steps({
+      group: parallel({
+        failing: async () => {
+          throw new Error("boom")
+        },
+        slow: async () => {
+          await delay(10)
+          slowFinished = true
+        },
+      }),
+    })
+
+    await expect(runner.run({ clear: true })).rejects.toThrow("boom")
+    expect(slowFinished).toBe(true)
+  })
+
+  it("pipe() passes the same input to each leaf", async () => {
+    const result = await steps({
+      seed: () => 3,
+      fanOut: parallel({
+        double: ((x: number) => x * 2) as () => number,
+        square: ((x: number) => x * x) as () => number,
+      }),
+    }).pipe({ clear: true })
+
+    expect(result).toEqual({ double: 6, square: 9 })
+  })
+})
+
+describe("retry", () => {
+  it("parses the retry policy onto the step node", () => {
+    const work = () => 1
+    const nodes = parseStepsDef({
+      plain: work,
+      flaky: retry(work, { attempts: 5 }),
+      labelled: ["Flaky step", retry(work)],
+    })
+
+    expect(nodes[0]!.retry).toBeUndefined()
+    expect(nodes[1]!.retry).toEqual({ attempts: 5 })
+    expect(nodes[2]!.retry).toEqual({})
+  })
+
+  it("retries until the work succeeds", async () => {
+    let calls = 0
+    const flaky = async () => {
+      calls++
+      if (calls < 3) throw new Error("timeout")
+      return "ok"
+    }
+
+    const results = await steps({
+      fetchIndex: retry(flaky, { attempts: 3, backoff: 1 }),
+    }).run({ clear: true })
+
+    expect(calls).toBe(3)
+    expect(results.fetchIndex).toBe("ok")
+  })
+
+  it("fails after the last attempt", async () => {
+    let calls = 0
+    const runner = steps({
+      fetchIndex: retry(
+        () => {
+          calls++
+          throw new Error("down")
+        },
+        { attempts: 2, backoff: 1 },
+      ),
+    })
+
+    await expect(runner.run({ clear: true })).rejects.toThrow("down")
+    expect(calls).toBe(2)
+  })
+
+  it("does not retry when retryIf returns false", async () => {
+    let calls = 0
+    const runner = steps({
+      parse: retry(
+        () => {
+          calls++
+          throw new SyntaxError("bad input")
+        },
+        { backoff: 1, retryIf: (error) => !(error instanceof SyntaxError) },
+      ),
+    })
+
+    await expect(runner.run({ clear: true })).rejects.toThrow("bad input")
+    expect(calls).toBe(1)
+  })
+
+  it("reuses a generator step's sub-step rows on retry", async () => {
+    const events: ProgressEvent[] = []
+    const reporter = { event: (e: ProgressEvent) => events.push(e) }
+    let calls = 0
+
+    await steps({
+      sync: retry(
+        function* () {
+          calls++
+          yield "Download"
+          if (calls === 1) throw new Error("reset")
+          yield "Parse"
+        },
+        { attempts: 3, backoff: 1 },
+      ),
+    }).run({ mode: "silent", reporter })
+
+    const rows = (title: string) =>
+      events.filter((e) => "title" in e && e.title === title)
+    expect(new Set(rows("Download").map((e) => e.id)).size).toBe(1)
+    expect(rows("Download").map((e) => e.type)).toEqual([
+      "start",
+      "fail",
+      "start",
+      "complete",
+    ])
+    expect(rows("Parse").map((e) => e.type)).toEqual(["start", "complete"])
+  })
+})
+
+describe("reporter", () => {
+  it("reports step events with progress and errors", async () => {
+    const events: ProgressEvent[] = []
+    const reporter = { event: (e: ProgressEvent) => events.push(e) }
+
+    const runner = steps({
+      loadConfig: () => {
+        step().progress(1, 2)
+        return {}
+      },
+      parse: () => {
+        throw new Error("bad markdown")
+      },
+    })
+
+    await expect(runner.run({ mode: "silent", reporter })).rejects.toThrow(
+      "bad markdown",
+    )
+
+    expect(events.map((e) => e.type)).toEqual([
+      "start",
+      "progress",
+      "complete",
+      "start",
+      "fail",
+      "finish",
+    ])
+    expect(events[1]).toMatchObject({
+      title: "Load config",
+      current: 1,
+      total: 2,
+    })
+    expect(events[4]).toMatchObject({ title: "Parse", error: "bad markdown" })
+  })
+
+  it("throttles step().progress() but always applies the last value", async () => {
+    const events: ProgressEvent[] = []
+    const reporter = { event: (e: ProgressEvent) => events.push(e) }
+
+    const runner = steps({
+      scan: () => {
+        for (let i = 1; i <= 100; i++) {
+          step().progress(i, 100)
+        }
+      },
+    })
+
+    await runner.run({ mode: "silent", reporter, throttle: 1000 })
+
+    const progress = events.filter((e) => e.type === "progress")
+    expect(progress.length).toBeLessThan(100)
+    expect(progress.at(-1)).toMatchObject({ current: 100, total: 100 })
+    expect(events.find((e) => e.type === "complete")).toMatchObject({
+      title: "Scan (100/100)",
+    })
+  })
+})
+
+describe("timing summary", () => {
+  it("prints the slowest steps and group shares after the run", async () => {
+    const written: string[] = []
+    process.stdout.write = ((chunk: string) => {
+      written.push(String(chunk))
+      return true
+    }) as typeof process.stdout.write
+
+    const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms))
+    await steps({
+      loadModules: () => sleep(5),
+      loadRepo: {
+        discover: () => sleep(1),
+        parse: () => sleep(40),
+      },
+    }).run({ mode: "plain", summary: { limit: 2 } })
+
+    const all = written.join("")
+    const output = all.slice(all.indexOf("Finished in "))
+    expect(output).toContain("Finished in ")
+    expect(output).toMatch(
+      /Slowest steps\n\s+1\. Parse .*\n\s+2\. Load modules/,
+    )
+    expect(output).not.toContain("Discover")
+    expect(output).toMatch(/Groups\n\s+Load repo\s+\d+ms\s+\d+%/)
+  })
+
+  it("prints nothing in silent mode", async () => {
+    const written: string[] = []
+    process.stdout.write = ((chunk: string) => {
+      written.push(String(chunk))
+      return true
+    }) as typeof process.stdout.write
+
+    await steps({ load: () => {} }).run({ mode: "silent", summary: true })
+
+    expect(written).toEqual([])
+  })
+})
+
+describe("cancellation", () => {
+  it("rejects with the abort reason and skips the remaining steps", async () => {
+    const controller = new AbortController()
+    const ran: string[] = []
+
+    const runner = steps({
+      first: async () => {
+        ran.push("first")
+        controller.abort(new Error("cancelled by user"))
+        await new Promise((r) => setTimeout(r, 50))
+      },
+      second: () => {
+        ran.push("second")
+      },
+    })
+
+    await expect(runner.run({ signal: controller.signal })).rejects.toThrow(
+      "cancelled by user",
+    )
+    expect(ran).toEqual(["first"])
+  })
+
+  it("ignores progress from a cancelled step after the run ends", async () => {
+    const controller = new AbortController()
+    const events: ProgressEvent[] = []
+    const reporter = { event: (e: ProgressEvent) => events.push(e) }
+    const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms))
+    let reported = 0
+
+    const runner = steps({
+      scan: async () => {
+        step().progress(1, 10)
+        step().progress(2, 10)
+        controller.abort(new Error("cancelled by user"))
+        // The work function is abandoned but keeps reporting
+        for (let i = 3; i <= 10; i++) {
+          await sleep(5)
+          step().progress(i, 10)
+          reported = i
+        }
+      },
+    })
+
+    await expect(
+      runner.run({
+        mode: "silent",
+        reporter,
+        throttle: 20,
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow("cancelled by user")
+    await sleep(80)
+
+    expect(reported).toBe(10)
+    expect(events.at(-1)?.type).toBe("finish")
+    expect(events.filter((e) => e.type === "progress").at(-1)).toMatchObject({
+      current: 2,
+    })
+  })
+
+  it("does not start when the signal is already aborted", async () => {
+    const controller = new AbortController()
+    controller.abort()
+    let called = false
+
+    const runner = steps({
+      work: () => {
+        called = true
+      },
+    })
+
+    await expect(runner.pipe({ signal: controller.signal })).rejects.toThrow()
+    expect(called).toBe(false)
+  })
+
+  it("exposes the signal through step()", async () => {
+    const controller = new AbortController()
+    let captured: AbortSignal | null = null
+
+    await steps({
+      work: () => {
+        captured = step().signal
+      },
+    }).run({ clear: true, signal: controller.signal })
+
+    expect(captured).toBe(controller.signal)
+  })
+
+  it("provides a signal that never aborts outside a run", () => {
+    expect(step().signal.aborted).toBe(false)
+  })
+})
+
 describe("fluent steps() (legacy)", () => {
   it("still works with no arguments", async () => {
     const results = await steps()
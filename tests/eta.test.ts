@@ -5,10 +5,17 @@
 import { describe, it, expect } from "vitest"
 import {
   calculateETA,
+  calculateRate,
   formatETA,
   getETA,
   createETATracker,
+  ewmaStrategy,
+  linearStrategy,
+  medianStrategy,
+  resolveETAStrategy,
+  windowStrategy,
   DEFAULT_ETA_BUFFER_SIZE,
+  type ETASample,
 } from "../src/utils/eta.js"
 
 describe("calculateETA", () => {
@@ -54,6 +61,27 @@ describe("calculateETA", () => {
   })
 })
 
+describe("calculateRate", () => {
+  it("returns null with insufficient samples or time", () => {
+    expect(calculateRate([{ time: 1000, value: 0 }])).toBeNull()
+    expect(
+      calculateRate([
+        { time: 1000, value: 0 },
+        { time: 1000, value: 5 },
+      ]),
+    ).toBeNull()
+  })
+
+  it("measures units per second across the buffer", () => {
+    const buffer = [
+      { time: 1000, value: 0 },
+      { time: 2000, value: 1_000_000 },
+      { time: 3000, value: 5_000_000 },
+    ]
+    expect(calculateRate(buffer)).toBe(2_500_000)
+  })
+})
+
 describe("formatETA", () => {
   it("formats null as --:--", () => {
     expect(formatETA(null)).toBe("--:--")
@@ -112,7 +140,86 @@ describe("getETA", () => {
   })
 })
 
+/** Samples one second apart with the given per-second progress */
+function samplesWithRates(rates: number[]): ETASample[] {
+  const samples = [{ time: 0, value: 0 }]
+  for (const rate of rates) {
+    const last = samples[samples.length - 1]!
+    samples.push({ time: last.time + 1000, value: last.value + rate })
+  }
+  return samples
+}
+
+describe("ETA strategies", () => {
+  it("linear uses the oldest and newest sample with full confidence", () => {
+    const estimate = linearStrategy().estimate(samplesWithRates([10, 30]))
+    expect(estimate).toEqual({ rate: 20, confidence: 1 })
+  })
+
+  it("ewma weights recent rates more", () => {
+    const estimate = ewmaStrategy(0.5).estimate(samplesWithRates([10, 30]))
+    expect(estimate!.rate).toBe(20)
+
+    const fast = ewmaStrategy(0.9).estimate(samplesWithRates([10, 30]))
+    expect(fast!.rate).toBeCloseTo(28)
+  })
+
+  it("window only looks at recent samples", () => {
+    const samples = samplesWithRates([100, 100, 100, 10, 10])
+    const estimate = windowStrategy(2000).estimate(samples)
+    expect(estimate!.rate).toBe(10)
+  })
+
+  it("median ignores outliers", () => {
+    const samples = samplesWithRates([10, 10, 500, 10, 10])
+    expect(medianStrategy().estimate(samples)!.rate).toBe(10)
+  })
+
+  it("returns null without a full interval", () => {
+    for (const name of ["linear", "ewma", "window", "median"] as const) {
+      const strategy = resolveETAStrategy(name)
+      expect(strategy.estimate([])).toBeNull()
+      expect(strategy.estimate([{ time: 0, value: 0 }])).toBeNull()
+    }
+  })
+
+  it("is confident in steady rates and not in erratic ones", () => {
+    const steady = medianStrategy().estimate(samplesWithRates([10, 10, 10, 10]))
+    expect(steady!.confidence).toBe(1)
+
+    const erratic = medianStrategy().estimate(
+      samplesWithRates([1, 40, 2, 60, 1]),
+    )
+    expect(erratic!.confidence).toBeLessThan(0.5)
+
+    const early = medianStrategy().estimate(samplesWithRates([10]))
+    expect(early!.confidence).toBeLessThan(0.5)
+  })
+})
+
+describe("getETA with a strategy", () => {
+  it("reports stabilizing while confidence is low", () => {
+    const result = getETA(samplesWithRates([10]), 10, 100, "median")
+    expect(result.seconds).toBe(9)
+    expect(result.stabilizing).toBe(true)
+    expect(result.formatted).toBe("stabilizing…")
+  })
+
+  it("formats the ETA once the rate is steady", () => {
+    const samples = samplesWithRates([10, 10, 10, 10])
+    const result = getETA(samples, 40, 100, "ewma")
+    expect(result.stabilizing).toBe(false)
+    expect(result.formatted).toBe("0:06")
+  })
+})
+
 describe("createETATracker", () => {
+  it("accepts a strategy and uses its buffer size", () => {
+    const tracker = createETATracker({ strategy: "window" })
+    for (let i = 0; i < 50; i++) tracker.record(i)
+    expect(tracker.getBuffer()).toHaveLength(50)
+  })
+
   it("tracks samples and calculates ETA", () => {
     const tracker = createETATracker()
 
@@ -0,0 +1,84 @@
+/**
+ * Tests for formatting utilities
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  formatAmount,
+  formatBytes,
+  formatCount,
+  formatDuration,
+  formatRate,
+} from "../src/utils/format.js"
+
+describe("formatDuration", () => {
+  it("keeps milliseconds under a second", () => {
+    expect(formatDuration(0)).toBe("0ms")
+    expect(formatDuration(850)).toBe("850ms")
+  })
+
+  it("uses one decimal under a minute", () => {
+    expect(formatDuration(1234)).toBe("1.2s")
+    expect(formatDuration(59000)).toBe("59.0s")
+  })
+
+  it("pads seconds and minutes in longer durations", () => {
+    expect(formatDuration(59960)).toBe("1m 00s")
+    expect(formatDuration(184000)).toBe("3m 04s")
+    expect(formatDuration(3725000)).toBe("1h 02m")
+  })
+
+  it("returns a placeholder for invalid durations", () => {
+    expect(formatDuration(-1)).toBe("--")
+    expect(formatDuration(NaN)).toBe("--")
+  })
+})
+
+describe("formatBytes", () => {
+  it("uses SI prefixes by default", () => {
+    expect(formatBytes(0)).toBe("0 B")
+    expect(formatBytes(512)).toBe("512 B")
+    expect(formatBytes(12_400_000)).toBe("12.4 MB")
+    expect(formatBytes(123_456_789)).toBe("123 MB")
+  })
+
+  it("uses IEC prefixes when asked", () => {
+    expect(formatBytes(1024, "iec")).toBe("1.0 KiB")
+    expect(formatBytes(12_400_000, "iec")).toBe("11.8 MiB")
+  })
+
+  it("carries rounding into the next unit", () => {
+    expect(formatBytes(999_999)).toBe("1.0 MB")
+  })
+})
+
+describe("formatCount", () => {
+  it("abbreviates from a thousand up", () => {
+    expect(formatCount(950)).toBe("950")
+    expect(formatCount(12_345)).toBe("12.3k")
+    expect(formatCount(4_500_000)).toBe("4.5M")
+  })
+})
+
+describe("formatAmount", () => {
+  it("formats by unit", () => {
+    expect(formatAmount(1500)).toBe("1.5k")
+    expect(formatAmount(1500, "bytes")).toBe("1.5 kB")
+  })
+})
+
+describe("formatRate", () => {
+  it("formats byte throughput", () => {
+    expect(formatRate(12_400_000, "bytes")).toBe("12.4 MB/s")
+    expect(formatRate(2048, "bytes", "iec")).toBe("2.0 KiB/s")
+  })
+
+  it("keeps a decimal for slow item rates", () => {
+    expect(formatRate(3.25)).toBe("3.3/s")
+    expect(formatRate(2500)).toBe("2.5k/s")
+  })
+
+  it("returns a placeholder for unknown rates", () => {
+    expect(formatRate(null)).toBe("--/s")
+  })
+})
@@ -0,0 +1,42 @@
+/**
+ * Tests for frame diffing used by MultiProgress live rendering
+ */
+
+import { describe, it, expect } from "vitest"
+import { diffFrame } from "../src/cli/frame-diff.js"
+import { CLEAR_LINE, cursorUp, cursorDown } from "../src/cli/ansi.js"
+
+describe("diffFrame", () => {
+  it("returns empty string for identical frames", () => {
+    expect(diffFrame(["a", "b"], ["a", "b"])).toBe("")
+    expect(diffFrame([], [])).toBe("")
+  })
+
+  it("writes all lines for the first frame", () => {
+    expect(diffFrame([], ["a", "b"])).toBe(`${CLEAR_LINE}a\n${CLEAR_LINE}b\n`)
+  })
+
+  it("rewrites only changed rows", () => {
+    const out = diffFrame(["a", "b", "c"], ["a", "B", "c"])
+    expect(out).toBe(`${cursorUp(2)}${CLEAR_LINE}B\n${cursorDown(1)}`)
+  })
+
+  it("skips unchanged rows between changes", () => {
+    const out = diffFrame(["a", "b", "c", "d"], ["A", "b", "c", "D"])
+    expect(out).toBe(
+      `${cursorUp(4)}${CLEAR_LINE}A\n${cursorDown(2)}${CLEAR_LINE}D\n`,
+    )
+  })
+
+  it("appends new rows", () => {
+    const out = diffFrame(["a"], ["a", "b"])
+    expect(out).toBe(`${CLEAR_LINE}b\n`)
+  })
+
+  it("clears leftover rows when the frame shrinks", () => {
+    const out = diffFrame(["a", "b", "c"], ["a"])
+    expect(out).toBe(
+      `${cursorUp(2)}${CLEAR_LINE}\n${CLEAR_LINE}\n${cursorUp(2)}`,
+    )
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * Shared test fixtures - fake output streams that record what is written
+ */
+
+import { beforeEach, afterEach } from "vitest"
+import { PassThrough } from "stream"
+import { setCapabilities } from "../src/utils/capabilities.js"
+
+/** A fake stream and everything written to it */
+export interface FakeStream {
+  /** The stream, typed as the write stream components take */
+  stream: NodeJS.WriteStream
+  /** Everything written so far */
+  output(): string
+  /** The most recent write ("" before the first) */
+  last(): string
+  /** Each write, in order */
+  writes: string[]
+}
+
+/**
+ * Create a fake terminal (`isTTY`, a no-op `setRawMode` so it can also be
+ * a prompt's input)
+ *
+ * @example
+ * ```ts
+ * const { stream, output } = createTTY({ columns: 40 })
+ * new MultiProgress(stream, { mode: "live" }).start().stop()
+ * expect(output()).toContain(CURSOR_SHOW)
+ * ```
+ */
+export function createTTY(options: { columns?: number } = {}): FakeStream {
+  const stream = new PassThrough() as PassThrough & {
+    isTTY: boolean
+    columns?: number
+    setRawMode: (mode: boolean) => void
+  }
+  stream.isTTY = true
+  stream.columns = options.columns
+  stream.setRawMode = () => {}
+  return record(stream)
+}
+
+/** Create a fake pipe (not a TTY: plain output, CI logs) */
+export function createPipe(): FakeStream {
+  return record(new PassThrough())
+}
+
+/** Collect the writes to a stream */
+function record(stream: PassThrough): FakeStream {
+  const chunks: string[] = []
+  stream.on("data", (chunk) => chunks.push(String(chunk)))
+  return {
+    stream: stream as unknown as NodeJS.WriteStream,
+    output: () => chunks.join(""),
+    last: () => chunks.at(-1) ?? "",
+    writes: chunks,
+  }
+}
+
+/**
+ * Let the tests of the calling file write OSC sequences (tab progress,
+ * window title): test runners set CI, which turns them off
+ */
+export function allowTerminalSequences(): void {
+  beforeEach(() => {
+    setCapabilities({ ci: false })
+  })
+
+  afterEach(() => {
+    setCapabilities(undefined)
+  })
+}
@@ -4,29 +4,15 @@
 
 import { describe, it, expect, beforeEach, afterEach, mock } from "vitest"
 import { MultiProgress } from "../src/cli/multi-progress.js"
-import { PassThrough } from "stream"
-
-/**
- * Create a mock stream for testing
- * Uses PassThrough which is a non-TTY stream
- */
-function createMockStream(): PassThrough & { isTTY?: boolean } {
-  return new PassThrough()
-}
-
-/**
- * Create a mock TTY stream for testing
- */
-function createMockTTY(): PassThrough & { isTTY: boolean } {
-  const stream = new PassThrough() as PassThrough & { isTTY: boolean }
-  stream.isTTY = true
-  return stream
-}
+import { stripAnsi } from "../src/cli/text.js"
+import type { ProgressEvent } from "../src/types.js"
+import { createAnimationClock, createManualTicker } from "../src/utils/clock.js"
+import { createPipe, createTTY } from "./helpers.js"
 
 describe("MultiProgress", () => {
   describe("constructor", () => {
     it("accepts custom stream", () => {
-      const stream = createMockStream()
+      const { stream } = createPipe()
       const multi = new MultiProgress(stream as any)
       expect(multi).toBeDefined()
     })
@@ -39,7 +25,7 @@ describe("MultiProgress", () => {
 
   describe("add", () => {
     it("adds a spinner task by default", () => {
-      const stream = createMockStream()
+      const { stream } = createPipe()
       const multi = new MultiProgress(stream as any)
 
       const task = multi.add("Loading")
@@ -49,7 +35,7 @@ describe("MultiProgress", () => {
     })
 
     it("adds a bar task with total", () => {
-      const stream = createMockStream()
+      const { stream } = createPipe()
       const multi = new MultiProgress(stream as any)
 
       const task = multi.add("Processing", { type: "bar", total: 100 })
@@ -59,7 +45,7 @@ describe("MultiProgress", () => {
     })
 
     it("accepts spinnerStyle option", () => {
-      const stream = createMockStream()
+      const { stream } = createPipe()
       const multi = new MultiProgress(stream as any)
 
       const task = multi.add("Scanning", {
@@ -71,7 +57,7 @@ describe("MultiProgress", () => {
     })
 
     it("adds multiple tasks in order", () => {
-      const stream = createMockStream()
+      const { stream } = createPipe()
       const multi = new MultiProgress(stream as any)
 
       const task1 = multi.add("Task 1")
@@ -86,7 +72,7 @@ describe("MultiProgress", () => {
 
   describe("start/stop", () => {
     it("start returns the MultiProgress instance", () => {
-      const stream = createMockStream()
+      const { stream } = createPipe()
       const multi = new MultiProgress(stream as any)
 
       const result = multi.start()
@@ -96,7 +82,7 @@ describe("MultiProgress", () => {
     })
 
     it("stop returns the MultiProgress instance", () => {
-      const stream = createMockStream()
+      const { stream } = createPipe()
       const multi = new MultiProgress(stream as any)
 
       multi.start()
@@ -106,7 +92,7 @@ describe("MultiProgress", () => {
     })
 
     it("stop is idempotent", () => {
-      const stream = createMockStream()
+      const { stream } = createPipe()
       const multi = new MultiProgress(stream as any)
 
       multi.start()
@@ -117,7 +103,7 @@ describe("MultiProgress", () => {
     })
 
     it("start is idempotent", () => {
-      const stream = createMockStream()
+      const { stream } = createPipe()
       const multi = new MultiProgress(stream as any)
 
       multi.start()
@@ -131,7 +117,7 @@ describe("MultiProgress", () => {
   describe("TaskHandle", () => {
     describe("start", () => {
       it("changes status to running", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Test task")
 
@@ -143,7 +129,7 @@ describe("MultiProgress", () => {
       })
 
       it("is chainable", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Test task")
 
@@ -155,7 +141,7 @@ describe("MultiProgress", () => {
 
     describe("complete", () => {
       it("changes status to completed", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Test task")
 
@@ -166,7 +152,7 @@ describe("MultiProgress", () => {
       })
 
       it("accepts optional new title", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Test task")
 
@@ -177,7 +163,7 @@ describe("MultiProgress", () => {
       })
 
       it("is chainable", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Test task")
 
@@ -189,7 +175,7 @@ describe("MultiProgress", () => {
 
     describe("fail", () => {
       it("changes status to failed", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Test task")
 
@@ -200,7 +186,7 @@ describe("MultiProgress", () => {
       })
 
       it("accepts optional new title", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Test task")
 
@@ -211,7 +197,7 @@ describe("MultiProgress", () => {
       })
 
       it("is chainable", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Test task")
 
@@ -223,7 +209,7 @@ describe("MultiProgress", () => {
 
     describe("skip", () => {
       it("changes status to skipped", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Test task")
 
@@ -233,7 +219,7 @@ describe("MultiProgress", () => {
       })
 
       it("accepts optional new title", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Test task")
 
@@ -243,7 +229,7 @@ describe("MultiProgress", () => {
       })
 
       it("is chainable", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Test task")
 
@@ -255,7 +241,7 @@ describe("MultiProgress", () => {
 
     describe("update", () => {
       it("updates current progress value", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Processing", { type: "bar", total: 100 })
 
@@ -268,7 +254,7 @@ describe("MultiProgress", () => {
       })
 
       it("is chainable", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Processing", { type: "bar", total: 100 })
 
@@ -280,7 +266,7 @@ describe("MultiProgress", () => {
 
     describe("setTitle", () => {
       it("updates task title", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Initial title")
 
@@ -292,7 +278,7 @@ describe("MultiProgress", () => {
       })
 
       it("is chainable", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Test")
 
@@ -304,7 +290,7 @@ describe("MultiProgress", () => {
 
     describe("status", () => {
       it("returns pending for new tasks", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Test")
 
@@ -312,7 +298,7 @@ describe("MultiProgress", () => {
       })
 
       it("tracks status changes through transitions", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Test")
 
@@ -328,7 +314,7 @@ describe("MultiProgress", () => {
 
     describe("chaining", () => {
       it("supports fluent API", () => {
-        const stream = createMockStream()
+        const { stream } = createPipe()
         const multi = new MultiProgress(stream as any)
         const task = multi.add("Chained task", { type: "bar", total: 100 })
 
@@ -347,7 +333,7 @@ describe("MultiProgress", () => {
 
   describe("concurrent tasks", () => {
     it("tracks multiple tasks independently", () => {
-      const stream = createMockStream()
+      const { stream } = createPipe()
       const multi = new MultiProgress(stream as any)
 
       const task1 = multi.add("Task 1")
@@ -370,7 +356,7 @@ describe("MultiProgress", () => {
     })
 
     it("handles mixed spinner and bar tasks", () => {
-      const stream = createMockStream()
+      const { stream } = createPipe()
       const multi = new MultiProgress(stream as any)
 
       const spinner1 = multi.add("Scanning", { type: "spinner" })
@@ -388,4 +374,504 @@ describe("MultiProgress", () => {
       expect(spinner2.status).toBe("running")
     })
   })
+
+  describe("plain mode", () => {
+    it("is used automatically for non-TTY streams", () => {
+      const { stream, output } = createPipe()
+      const multi = new MultiProgress(stream as any)
+      const task = multi.add("Parse markdown")
+
+      multi.start()
+      task.start()
+      task.complete(120)
+      multi.stop()
+
+      const lines = output().trimEnd().split("\n")
+      expect(lines).toHaveLength(2)
+      expect(lines[0]).toContain("Parse markdown")
+      expect(lines[1]).toContain("✔")
+      expect(lines[1]).toContain("Parse markdown (120ms)")
+    })
+
+    it("prints each transition once", () => {
+      const { stream, output } = createPipe()
+      const multi = new MultiProgress(stream as any)
+      const task = multi.add("Download", { type: "bar", total: 10 })
+
+      multi.start()
+      task.start()
+      task.update(5)
+      task.setTitle("Download (5/10)")
+      task.start()
+      task.fail()
+      multi.stop()
+
+      const lines = output().trimEnd().split("\n")
+      expect(lines).toHaveLength(2)
+      expect(lines[1]).toContain("✖")
+      expect(lines[1]).toContain("Download (5/10)")
+    })
+
+    it("keeps group indentation and skips pending tasks", () => {
+      const { stream, output } = createPipe()
+      const multi = new MultiProgress(stream as any)
+      const group = multi.add("Load repo", { type: "group" })
+      const child = multi.add("Discover", { indent: 1 })
+      multi.add("Never started", { indent: 1 })
+
+      multi.start()
+      group.start()
+      child.start()
+      child.skip()
+      multi.stop()
+
+      const text = output()
+      expect(text).toContain("  ⊘ Discover")
+      expect(text).not.toContain("Never started")
+      expect(text.endsWith("\n\n")).toBe(false)
+    })
+
+    it("can be forced for TTY streams", () => {
+      const { stream, output } = createTTY()
+      const multi = new MultiProgress(stream as any, { mode: "plain" })
+      const task = multi.add("Build")
+
+      multi.start()
+      task.start()
+      task.complete()
+      multi.stop()
+
+      const text = output()
+      expect(text).not.toContain("\x1b[2K")
+      expect(text).not.toContain("\x1b[?25l")
+      expect(text).toContain("Build\n")
+    })
+  })
+
+  describe("live mode", () => {
+    it("skips the write when nothing changed", () => {
+      const { stream, output } = createTTY()
+      const multi = new MultiProgress(stream as any)
+      const task = multi.add("Build")
+      task.complete(5)
+
+      multi.start()
+      const afterStart = output()
+      ;(multi as any).render()
+      ;(multi as any).render()
+
+      expect(output()).toBe(afterStart)
+      multi.stop()
+    })
+
+    it("rewrites only the changed row", () => {
+      const { stream, output } = createTTY()
+      const multi = new MultiProgress(stream as any)
+      multi.add("First")
+      const second = multi.add("Second")
+      multi.add("Third")
+
+      multi.start()
+      const before = output().length
+      second.skip()
+      const update = output().slice(before)
+
+      expect(update).toContain("Second")
+      expect(update).not.toContain("First")
+      expect(update).not.toContain("Third")
+      multi.stop()
+    })
+
+    it("draws a burst of progress updates as one frame", async () => {
+      const { stream, writes } = createTTY()
+      const ticker = createManualTicker()
+      const multi = new MultiProgress(stream as any, {
+        clock: createAnimationClock(ticker),
+        throttle: 20,
+      })
+      const task = multi.add("Scan", { type: "bar", total: 100 })
+      task.start()
+      multi.start()
+      const before = writes.length
+
+      for (let i = 1; i <= 50; i++) task.update(i)
+      expect(writes).toHaveLength(before)
+
+      await new Promise((r) => setTimeout(r, 40))
+      expect(writes).toHaveLength(before + 1)
+      expect(stripAnsi(writes.at(-1)!)).toContain("50%")
+      multi.stop()
+    })
+  })
+
+  describe("bar style", () => {
+    it("draws bar rows with the task's style", () => {
+      const { stream } = createTTY()
+      const multi = new MultiProgress(stream as any, { barStyle: "ascii" })
+      const download = multi.add("Download", { type: "bar", total: 4 })
+      const upload = multi.add("Upload", {
+        type: "bar",
+        total: 4,
+        barStyle: "smooth",
+      })
+
+      multi.start()
+      download.start()
+      download.update(2)
+      upload.start()
+      upload.update(1)
+      ;(multi as any).render()
+
+      const frame = stripAnsi((multi as any).frame.join("\n"))
+      expect(frame).toContain("=========>")
+      expect(frame).toContain("█████ ")
+      multi.stop()
+    })
+  })
+
+  describe("byte tasks", () => {
+    it("shows amounts and throughput on bar rows counting bytes", () => {
+      const realNow = Date.now
+      let now = 1_000_000
+      Date.now = () => now
+      try {
+        const multi = new MultiProgress(createTTY().stream)
+        const download = multi.add("Download", {
+          type: "bar",
+          total: 40_000_000,
+          unit: "bytes",
+        })
+
+        multi.start()
+        download.start()
+        download.update(0)
+        now += 1000
+        download.update(3_100_000)
+        ;(multi as any).render()
+
+        const frame = stripAnsi((multi as any).frame.join("\n"))
+        expect(frame).toContain("3.1 MB/40.0 MB 3.1 MB/s")
+        multi.stop()
+      } finally {
+        Date.now = realNow
+      }
+    })
+  })
+
+  describe("spinner styles", () => {
+    it("animates each row at its spinner's interval", () => {
+      const ticker = createManualTicker()
+      const clock = createAnimationClock(ticker)
+      const multi = new MultiProgress(createTTY().stream, { clock })
+      const slow = multi.add("Slow", {
+        spinnerStyle: { frames: ["a", "b"], interval: 1000 },
+      })
+      const fast = multi.add("Fast", {
+        spinnerStyle: { frames: ["x", "y", "z"], interval: 100 },
+      })
+
+      multi.start()
+      slow.start()
+      fast.start()
+      expect(clock.active).toBe(true)
+      ticker.advance(250)
+
+      const frame = stripAnsi((multi as any).frame.join("\n"))
+      expect(frame).toContain("a Slow")
+      expect(frame).toContain("z Fast")
+      multi.stop()
+      expect(clock.active).toBe(false)
+    })
+  })
+
+  describe("stacked bar tasks", () => {
+    it("draws segments and counts from named counters", () => {
+      const events: ProgressEvent[] = []
+      const multi = new MultiProgress(createTTY().stream, {
+        reporter: { event: (e) => events.push(e) },
+      })
+      const batch = multi.add("Batch", {
+        type: "bar",
+        total: 10,
+        segments: ["succeeded", "failed"],
+      })
+
+      multi.start()
+      batch.start()
+      batch.update({ succeeded: 4 })
+      batch.update({ failed: 1 })
+      ;(multi as any).render()
+
+      const frame = stripAnsi((multi as any).frame.join("\n"))
+      expect(frame).toContain("50%")
+      expect(frame).toContain("4 succeeded · 1 failed")
+      expect(events.at(-1)).toMatchObject({
+        type: "progress",
+        current: 5,
+        counts: { succeeded: 4, failed: 1 },
+      })
+      multi.stop()
+    })
+  })
+
+  describe("viewport", () => {
+    /** Lines of the current live frame */
+    const frameOf = (multi: MultiProgress): string[] => (multi as any).frame
+
+    it("folds completed tasks into a marker when taller than the terminal", () => {
+      const stream = createTTY().stream as any
+      stream.rows = 6
+      const multi = new MultiProgress(stream)
+      const tasks = Array.from({ length: 10 }, (_, i) => multi.add(`Step ${i}`))
+
+      multi.start()
+      for (const task of tasks.slice(0, 8)) task.complete()
+      tasks[8]!.start()
+      tasks[9]!.fail()
+
+      const frame = frameOf(multi)
+      expect(frame.length).toBeLessThanOrEqual(5)
+      expect(frame.some((line) => line.includes("more completed"))).toBe(true)
+      expect(frame.some((line) => line.includes("Step 8"))).toBe(true)
+      expect(frame.some((line) => line.includes("Step 9"))).toBe(true)
+      multi.stop()
+    })
+
+    it("collapses finished groups to one summary line", () => {
+      const { stream } = createTTY()
+      const multi = new MultiProgress(stream as any, { maxHeight: 3 })
+      const group = multi.add("Load repo", { type: "group" })
+      const children = [1, 2, 3].map((i) =>
+        multi.add(`Child ${i}`, { indent: 1 }),
+      )
+      const next = multi.add("Build")
+
+      multi.start()
+      for (const child of children) child.complete()
+      group.complete(30)
+      next.start()
+
+      const frame = frameOf(multi)
+      expect(frame).toHaveLength(2)
+      expect(frame[0]).toContain("Load repo")
+      expect(frame[0]).toContain("(3 steps)")
+      expect(frame[1]).toContain("Build")
+      multi.stop()
+    })
+
+    it("folds pending tasks past the limit", () => {
+      const { stream } = createTTY()
+      const multi = new MultiProgress(stream as any, { maxHeight: 4 })
+      const first = multi.add("First")
+      for (let i = 0; i < 6; i++) multi.add(`Later ${i}`)
+
+      multi.start()
+      first.start()
+
+      const frame = frameOf(multi)
+      expect(frame).toHaveLength(4)
+      expect(frame[0]).toContain("First")
+      expect(frame[3]).toContain("… 4 more pending")
+      multi.stop()
+    })
+
+    it("renders every task on stop", () => {
+      const { stream, output } = createTTY()
+      const multi = new MultiProgress(stream as any, { maxHeight: 2 })
+      const tasks = Array.from({ length: 5 }, (_, i) => multi.add(`Task ${i}`))
+
+      multi.start()
+      for (const task of tasks) task.complete()
+      multi.stop()
+
+      expect(frameOf(multi)).toHaveLength(5)
+      for (let i = 0; i < 5; i++) {
+        expect(output()).toContain(`Task ${i}`)
+      }
+    })
+
+    it("can be disabled", () => {
+      const { stream } = createTTY()
+      const multi = new MultiProgress(stream as any, {
+        viewport: false,
+        maxHeight: 2,
+      })
+      for (let i = 0; i < 5; i++) multi.add(`Task ${i}`)
+
+      multi.start()
+      expect(frameOf(multi)).toHaveLength(5)
+      multi.stop()
+    })
+  })
+
+  describe("log", () => {
+    it("writes above the live region and redraws the tasks", () => {
+      const { stream, output } = createTTY()
+      const multi = new MultiProgress(stream as any)
+      multi.add("Build").start()
+
+      multi.start()
+      const before = output().length
+      multi.log("Cache hit")
+      const update = output().slice(before)
+
+      expect(update).toContain("Cache hit\n")
+      expect(update.indexOf("Build")).toBeGreaterThan(
+        update.indexOf("Cache hit"),
+      )
+      multi.stop()
+    })
+
+    it("writes plain lines in plain mode", () => {
+      const { stream, output } = createPipe()
+      const multi = new MultiProgress(stream as any)
+
+      multi.start()
+      multi.log("hello")
+      multi.stop()
+
+      expect(output()).toBe("hello\n")
+    })
+
+    it("patches console only while active", () => {
+      const { stream, output } = createPipe()
+      const originalWarn = console.warn
+      const multi = new MultiProgress(stream as any, { patchConsole: true })
+
+      multi.start()
+      expect(console.warn).not.toBe(originalWarn)
+      console.warn("careful", { retries: 2 })
+      multi.stop()
+
+      expect(console.warn).toBe(originalWarn)
+      expect(output()).toContain("careful { retries: 2 }\n")
+    })
+  })
+
+  describe("terminal width", () => {
+    it("truncates lines wider than the terminal", () => {
+      const { stream } = createTTY({ columns: 20 })
+      const multi = new MultiProgress(stream)
+      multi.add("A very long task title that would wrap")
+
+      multi.start()
+      const frame: string[] = (multi as any).frame
+      expect(frame[0]).toContain("…")
+      expect(frame[0]).not.toContain("would wrap")
+      multi.stop(true)
+    })
+
+    it("redraws on resize and stops listening after stop", () => {
+      const { stream, output } = createTTY({ columns: 80 })
+      const multi = new MultiProgress(stream)
+      multi.add("Build").start()
+
+      multi.start()
+      const before = output().length
+      stream.columns = 40
+      stream.emit("resize")
+
+      expect(output().slice(before)).toContain("Build")
+      multi.stop()
+      expect(stream.listenerCount("resize")).toBe(0)
+    })
+  })
+
+  describe("reporter", () => {
+    function createRecorder() {
+      const events: ProgressEvent[] = []
+      return {
+        events,
+        reporter: { event: (e: ProgressEvent) => events.push(e) },
+      }
+    }
+
+    it("reports task transitions with parent ids", () => {
+      const { events, reporter } = createRecorder()
+      const multi = new MultiProgress(createPipe().stream, { reporter })
+
+      const group = multi.add("Build")
+      const child = multi.add("Compile", { indent: 1 })
+      multi.start()
+      group.start()
+      child.start()
+      child.complete(120)
+      group.fail("Build", new Error("tests failed"))
+      multi.stop()
+
+      expect(events.map((e) => e.type)).toEqual([
+        "start",
+        "start",
+        "complete",
+        "fail",
+        "finish",
+      ])
+      expect(events[1]).toMatchObject({
+        type: "start",
+        id: child.id,
+        title: "Compile",
+        parent: group.id,
+      })
+      expect(events[2]).toMatchObject({ type: "complete", duration: 120 })
+      expect(events[3]).toMatchObject({
+        type: "fail",
+        id: group.id,
+        error: "tests failed",
+      })
+      expect(events[4]).toMatchObject({
+        type: "finish",
+        completed: 1,
+        failed: 1,
+        skipped: 0,
+      })
+    })
+
+    it("reports progress updates and skips", () => {
+      const { events, reporter } = createRecorder()
+      const multi = new MultiProgress(createPipe().stream, { reporter })
+
+      const download = multi.add("Download", { type: "bar", total: 10 })
+      const extract = multi.add("Extract")
+      multi.start()
+      download.start()
+      download.update(4)
+      download.update(8, 20)
+      extract.skip()
+      multi.stop()
+
+      const progress = events.filter((e) => e.type === "progress")
+      expect(progress).toMatchObject([
+        { current: 4, total: 10 },
+        { current: 8, total: 20 },
+      ])
+      expect(events.find((e) => e.type === "skip")).toMatchObject({
+        id: extract.id,
+      })
+    })
+
+    it("omits undefined fields", () => {
+      const { events, reporter } = createRecorder()
+      const multi = new MultiProgress(createPipe().stream, { reporter })
+
+      multi.add("Root").start()
+
+      expect(Object.keys(events[0]!)).not.toContain("parent")
+    })
+  })
+
+  describe("silent mode", () => {
+    it("writes nothing, even on a TTY", () => {
+      const { stream, output } = createTTY()
+      const multi = new MultiProgress(stream as any, { mode: "silent" })
+
+      const task = multi.add("Build")
+      multi.start()
+      task.start()
+      task.complete()
+      multi.log("note")
+      multi.stop()
+
+      expect(output()).toBe("")
+    })
+  })
 })
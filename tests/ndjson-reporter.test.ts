@@ -0,0 +1,82 @@
+/**
+ * Tests for the NDJSON progress reporter
+ */
+
+import { describe, it, expect, afterEach } from "vitest"
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { createNdjsonReporter } from "../src/cli/ndjson-reporter.js"
+import { MultiProgress } from "../src/cli/multi-progress.js"
+import { createPipe } from "./helpers.js"
+
+describe("createNdjsonReporter", () => {
+  let dir: string | undefined
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true })
+    dir = undefined
+  })
+
+  it("writes one JSON object per line to a stream", () => {
+    const { stream, output } = createPipe()
+
+    const reporter = createNdjsonReporter(stream)
+    reporter.event({ type: "start", id: "a", title: "Fetch", time: 1 })
+    reporter.event({ type: "complete", id: "a", title: "Fetch", time: 5 })
+
+    const lines = output().trimEnd().split("\n")
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      { type: "start", id: "a", title: "Fetch", time: 1 },
+      { type: "complete", id: "a", title: "Fetch", time: 5 },
+    ])
+  })
+
+  it("appends to a file path", () => {
+    dir = mkdtempSync(join(tmpdir(), "ndjson-"))
+    const file = join(dir, "progress.ndjson")
+
+    const multi = new MultiProgress(createPipe().stream, {
+      mode: "silent",
+      reporter: createNdjsonReporter(file),
+    })
+    const task = multi.add("Sync")
+    multi.start()
+    task.start()
+    task.complete(42)
+    multi.stop()
+
+    const events = readFileSync(file, "utf8")
+      .trimEnd()
+      .split("\n")
+      .map((line) => JSON.parse(line))
+    expect(events.map((e) => e.type)).toEqual(["start", "complete", "finish"])
+    expect(events[1]).toMatchObject({ title: "Sync", duration: 42 })
+  })
+
+  it("opens the file on the first event and drops events after stop()", () => {
+    dir = mkdtempSync(join(tmpdir(), "ndjson-"))
+    const file = join(dir, "progress.ndjson")
+
+    const reporter = createNdjsonReporter(file)
+    expect(existsSync(file)).toBe(false)
+    reporter.event({ type: "start", id: "a", title: "Fetch", time: 1 })
+    reporter.event({
+      type: "finish",
+      time: 2,
+      duration: 1,
+      completed: 1,
+      failed: 0,
+      skipped: 0,
+    })
+    reporter.stop!()
+    reporter.stop!()
+    reporter.event({ type: "complete", id: "a", title: "Fetch", time: 5 })
+
+    const types = readFileSync(file, "utf8")
+      .trimEnd()
+      .split("\n")
+      .map((line) => JSON.parse(line).type)
+    expect(types).toEqual(["start", "finish"])
+  })
+})
@@ -4,6 +4,10 @@
 
 import { describe, it, expect, beforeEach, afterEach } from "vitest"
 import { ProgressBar } from "../src/cli/progress-bar.js"
+import { stripAnsi } from "../src/cli/text.js"
+import { setCapabilities } from "../src/utils/capabilities.js"
+import { setAccessibleMode } from "../src/utils/accessibility.js"
+import { createTTY } from "./helpers.js"
 
 // Capture stdout to silence progress bar output
 let originalWrite: typeof process.stdout.write
@@ -17,6 +21,24 @@ afterEach(() => {
   process.stdout.write = originalWrite
 })
 
+/**
+ * Render a bar to a mock TTY and return everything written
+ */
+function renderWith(options: ConstructorParameters<typeof ProgressBar>[0]) {
+  const { stream, output } = createTTY()
+
+  const bar = new ProgressBar({
+    total: 8,
+    width: 4,
+    format: "[:bar]",
+    stream: stream as any,
+    ...options,
+  })
+  bar.start(3)
+  bar.stop()
+  return output()
+}
+
 describe("ProgressBar", () => {
   describe("constructor", () => {
     it("uses default values", () => {
@@ -87,6 +109,253 @@ describe("ProgressBar", () => {
     })
   })
 
+  describe("style", () => {
+    it("draws partial cells with the smooth style", () => {
+      expect(stripAnsi(renderWith({ style: "smooth" }))).toContain("█▌  ")
+    })
+
+    it("keeps complete/incomplete as glyph overrides", () => {
+      expect(
+        stripAnsi(renderWith({ complete: "#", incomplete: "-" })),
+      ).toContain("#--")
+      expect(
+        stripAnsi(renderWith({ style: "ascii", incomplete: "." })),
+      ).toContain("=>..")
+    })
+
+    it("colors empty cells with the theme's barEmpty", () => {
+      setAccessibleMode(false)
+      setCapabilities({ colors: "16" })
+      try {
+        const output = renderWith({ style: "block", total: 4, width: 4 })
+        // cyan filled cells, gray empty ones
+        expect(output).toContain("\x1b[36m███\x1b[39m\x1b[90m░\x1b[39m")
+      } finally {
+        setCapabilities(undefined)
+        setAccessibleMode(undefined)
+      }
+    })
+  })
+
+  describe("format", () => {
+    it("replaces repeated tokens and applies widths", () => {
+      const output = renderWith({
+        format: ":current/:total :percent{5,right} (:current)",
+      })
+      expect(output).toContain("3/8   38% (3)")
+    })
+
+    it("evaluates custom token functions", () => {
+      const output = renderWith({
+        format: ":files left",
+        tokens: { files: ({ current, total }) => `${total! - current} files` },
+      })
+      expect(output).toContain("5 files left")
+    })
+
+    it("truncates by display width without splitting escape codes", () => {
+      const { stream, writes: chunks } = createTTY({ columns: 12 })
+
+      const bar = new ProgressBar({
+        total: 10,
+        width: 6,
+        format: ":bar :label",
+        tokens: { label: () => "\x1b[32m日本語のテキスト\x1b[39m" },
+        stream: stream as any,
+      })
+      bar.start(5)
+      bar.stop()
+
+      // 11 columns available: the wide character that doesn't fit is dropped
+      const line = stripAnsi(chunks[1] ?? "")
+      expect(line.trim()).toBe("███░░░ 日…")
+      // The label's color reset survives the cut
+      expect(chunks[1]).toContain("日…\x1b[39m")
+    })
+  })
+
+  describe("byte tokens", () => {
+    it("formats :bytes and :totalBytes", () => {
+      const output = renderWith({
+        total: 40_000_000,
+        format: ":bytes/:totalBytes",
+      })
+      expect(output).toContain("3 B/40.0 MB")
+    })
+
+    it("uses IEC prefixes when asked", () => {
+      const output = renderWith({
+        total: 2 * 1024 * 1024,
+        format: ":totalBytes",
+        byteUnits: "iec",
+      })
+      expect(output).toContain("2.0 MiB")
+    })
+
+    it("derives :speed from recent updates", () => {
+      const { stream, writes: chunks } = createTTY()
+
+      const realNow = Date.now
+      let now = 1_000_000
+      Date.now = () => now
+      try {
+        const bar = new ProgressBar({
+          total: 100_000_000,
+          format: ":speed",
+          stream: stream as any,
+        })
+        bar.start(0)
+        expect(chunks.join("")).toContain("--/s")
+
+        now += 2000
+        bar.update(24_800_000)
+        expect(chunks.at(-1)).toContain("12.4 MB/s")
+        bar.stop()
+      } finally {
+        Date.now = realNow
+      }
+    })
+  })
+
+  describe("ETA strategy", () => {
+    it("shows stabilizing until the strategy trusts the rate", () => {
+      const { stream, writes: chunks } = createTTY()
+
+      const realNow = Date.now
+      let now = 0
+      Date.now = () => now
+      try {
+        const bar = new ProgressBar({
+          total: 100,
+          format: "ETA :eta",
+          etaStrategy: "median",
+          stream: stream as any,
+        })
+        bar.start(0)
+        now += 1000
+        bar.update(10)
+        expect(chunks.at(-1)).toContain("ETA stabilizing…")
+
+        for (let i = 2; i <= 5; i++) {
+          now += 1000
+          bar.update(i * 10)
+        }
+        expect(chunks.at(-1)).toContain("ETA 0:05")
+        bar.stop()
+      } finally {
+        Date.now = realNow
+      }
+    })
+  })
+
+  describe("stacked segments", () => {
+    it("sums named counters and adds per-segment tokens", () => {
+      const { stream, writes: chunks } = createTTY()
+      const bar = new ProgressBar({
+        total: 10,
+        width: 10,
+        throttle: 0,
+        segments: ["succeeded", "failed", "skipped"],
+        format: "[:bar] :percent :succeeded/:failed/:skipped :failedPercent",
+        stream: stream as any,
+      })
+      bar.start()
+      bar.update({ succeeded: 5, failed: 2 })
+      bar.update({ skipped: 1 })
+      expect(bar.percentage).toBe(80)
+      expect(stripAnsi(chunks.at(-1)!)).toContain("[████████░░]  80% 5/2/1 20%")
+      bar.stop()
+    })
+  })
+
+  describe("throttle", () => {
+    it("skips redraws within the interval and draws the final value on stop", () => {
+      const { stream, output } = createTTY()
+
+      const bar = new ProgressBar({
+        total: 100,
+        format: ":current/:total",
+        throttle: 1000,
+        stream: stream as any,
+      })
+      bar.start()
+      for (let i = 1; i <= 50; i++) {
+        bar.update(i)
+      }
+      expect(output()).toContain("1/100")
+      expect(output()).not.toContain("50/100")
+
+      bar.stop()
+      expect(output()).toContain("50/100")
+    })
+
+    it("redraws on every update when disabled", () => {
+      const { stream, writes: chunks } = createTTY()
+
+      const bar = new ProgressBar({
+        total: 10,
+        format: ":current",
+        throttle: 0,
+        stream: stream as any,
+      })
+      bar.start()
+      for (let i = 1; i <= 10; i++) {
+        bar.update(i)
+        expect(chunks.at(-1)).toContain(String(i))
+      }
+      bar.stop(true)
+    })
+  })
+
+  describe("indeterminate mode", () => {
+    it("is indeterminate until a total is known", () => {
+      const { stream, last } = createTTY()
+      const bar = new ProgressBar({
+        width: 8,
+        format: ":bar :percent",
+        indeterminateFormat: ":bar :current files",
+        stream: stream as any,
+      })
+
+      bar.start()
+      bar.update(250)
+      expect(bar.indeterminate).toBe(true)
+      expect(bar.ratio).toBe(0)
+      expect(last()).toContain("250 files")
+      expect(last()).toContain("██░░░░░░")
+
+      bar.setTotal(1000)
+      expect(bar.indeterminate).toBe(false)
+      expect(bar.percentage).toBe(25)
+      expect(last()).toContain(" 25%")
+      bar.stop()
+    })
+
+    it("switches when start() receives a total", () => {
+      const bar = new ProgressBar()
+      bar.start(10, 40)
+      expect(bar.indeterminate).toBe(false)
+      expect(bar.percentage).toBe(25)
+      bar.stop(true)
+    })
+
+    it("animates only while active and indeterminate", () => {
+      const { stream } = createTTY()
+      const bar = new ProgressBar({ stream: stream as any })
+
+      bar.start()
+      expect((bar as any).stopAnimation).not.toBeNull()
+      bar.setTotal(10)
+      expect((bar as any).stopAnimation).toBeNull()
+      bar.stop()
+
+      const other = new ProgressBar({ stream: stream as any })
+      other.start()
+      other.stop()
+      expect((other as any).stopAnimation).toBeNull()
+    })
+  })
+
   describe("ratio and percentage", () => {
     it("calculates ratio correctly", () => {
       const bar = new ProgressBar({ total: 200 })
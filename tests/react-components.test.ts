@@ -4,9 +4,15 @@
 
 import { describe, it, expect, beforeEach, afterEach, mock } from "vitest"
 import React, { createElement } from "react"
+import { renderToStaticMarkup } from "react-dom/server"
 import { Spinner, useSpinnerFrame } from "../src/react/Spinner.js"
-import { ProgressBar, useProgressBar } from "../src/react/ProgressBar.js"
+import {
+  ProgressBar,
+  StackedProgressBar,
+  useProgressBar,
+} from "../src/react/ProgressBar.js"
 import { Task, Tasks, useTasks } from "../src/react/Tasks.js"
+import { ThemeProvider } from "../src/react/theme.js"
 import {
   ProgressProvider,
   useProgress,
@@ -83,6 +89,47 @@ describe("React Components", () => {
     })
   })
 
+  describe("StackedProgressBar", () => {
+    /** Render inside a theme with the block bar style */
+    const render = (props: React.ComponentProps<typeof StackedProgressBar>) =>
+      renderToStaticMarkup(
+        createElement(
+          ThemeProvider,
+          { theme: { bar: "block" } },
+          createElement(StackedProgressBar, props),
+        ),
+      )
+
+    it("renders a colored span per segment followed by the counts", () => {
+      const html = render({
+        total: 10,
+        width: 10,
+        segments: [
+          { name: "succeeded", value: 5 },
+          { name: "failed", value: 2, color: "magenta" },
+        ],
+      })
+
+      const cells = [...html.matchAll(/data-color="(\w+)">([^<]*)</g)]
+      expect(cells.map(([, color]) => color)).toEqual(["green", "magenta"])
+      expect(cells.map(([, , text]) => text)).toEqual(["█████", "██"])
+      expect(html.replace(/<[^>]*>/g, "")).toBe(
+        "[███████░░░]  70% 5 succeeded · 2 failed",
+      )
+    })
+
+    it("leaves out the counts when showCounts is false", () => {
+      const html = render({
+        total: 4,
+        width: 4,
+        showCounts: false,
+        segments: [{ name: "succeeded", value: 1 }],
+      })
+
+      expect(html.replace(/<[^>]*>/g, "")).toBe("[█░░░]  25%")
+    })
+  })
+
   describe("Task", () => {
     it("renders with title and status", () => {
       const element = createElement(Task, {
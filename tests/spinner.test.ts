@@ -3,7 +3,15 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from "vitest"
-import { Spinner, SPINNER_FRAMES } from "../src/cli/spinner.js"
+import {
+  Spinner,
+  SPINNER_FRAMES,
+  registerSpinner,
+  registerSpinners,
+  resolveSpinner,
+} from "../src/cli/spinner.js"
+import { stripAnsi } from "../src/cli/text.js"
+import { createTTY } from "./helpers.js"
 
 // Capture stdout at top level to cover all spinner tests
 let originalWrite: typeof process.stdout.write
@@ -30,6 +38,62 @@ describe("Spinner", () => {
       expect(SPINNER_FRAMES.arc).toHaveLength(6)
       expect(SPINNER_FRAMES.bounce).toHaveLength(4)
       expect(SPINNER_FRAMES.pulse).toHaveLength(6)
+      expect(SPINNER_FRAMES.clock).toHaveLength(12)
+      expect(SPINNER_FRAMES.moon).toHaveLength(8)
+      expect(SPINNER_FRAMES.growVertical).toHaveLength(10)
+      expect(SPINNER_FRAMES.growHorizontal).toHaveLength(12)
+      expect(SPINNER_FRAMES.simpleDots).toHaveLength(4)
+    })
+  })
+
+  describe("custom spinners", () => {
+    it("resolves built-in names with their interval", () => {
+      expect(resolveSpinner("simpleDots")).toEqual({
+        frames: [".  ", ".. ", "...", "   "],
+        interval: 400,
+      })
+    })
+
+    it("registers spinners by name and from cli-spinners JSON", () => {
+      registerSpinner("toggle", { frames: ["⊶", "⊷"], interval: 250 })
+      registerSpinners({
+        arrow: { interval: 100, frames: ["←", "↑", "→", "↓"] },
+      })
+
+      expect(resolveSpinner("toggle")).toEqual({
+        frames: ["⊶", "⊷"],
+        interval: 250,
+      })
+      expect(resolveSpinner("arrow").frames).toHaveLength(4)
+    })
+
+    it("rejects unknown names and empty definitions", () => {
+      expect(() => resolveSpinner("nope")).toThrow(
+        'Unknown spinner style "nope"',
+      )
+      expect(() =>
+        registerSpinner("empty", { frames: [], interval: 80 }),
+      ).toThrow()
+      expect(() =>
+        registerSpinner("frozen", { frames: ["x"], interval: 0 }),
+      ).toThrow()
+    })
+
+    it("animates inline frames at their interval", async () => {
+      const tty = createTTY()
+
+      const spinner = new Spinner({
+        text: "Syncing",
+        style: { frames: ["A", "B"], interval: 10 },
+        stream: tty.stream,
+      })
+      spinner.start()
+      await new Promise((r) => setTimeout(r, 35))
+      spinner.stop()
+
+      const output = stripAnsi(tty.output())
+      expect(output).toContain("A Syncing")
+      expect(output).toContain("B Syncing")
     })
   })
 
@@ -106,6 +170,27 @@ describe("Spinner", () => {
     })
   })
 
+  describe("log", () => {
+    it("writes a permanent line", () => {
+      const spinner = new Spinner("Loading")
+      spinner.start()
+      spinner.log("Fetched 3 files")
+      spinner.stop()
+      expect(output.join("")).toContain("Fetched 3 files\n")
+    })
+
+    it("routes console.log while spinning when patchConsole is set", () => {
+      const originalLog = console.log
+      const spinner = new Spinner({ text: "Loading", patchConsole: true })
+      spinner.start()
+      console.log("value: %d", 42)
+      spinner.stop()
+
+      expect(output.join("")).toContain("value: 42\n")
+      expect(console.log).toBe(originalLog)
+    })
+  })
+
   describe("static start", () => {
     it("returns a stop function", () => {
       const stop = Spinner.start("Loading")
@@ -6,6 +6,7 @@ import { describe, it, expect } from "vitest"
 import { createElement } from "react"
 import { Table } from "../src/display/Table.js"
 import type { TableColumn } from "../src/types.js"
+import { stringWidth } from "../src/cli/text.js"
 
 // Helper to render table and get output string
 function renderTable(
@@ -216,4 +217,33 @@ describe("Table", () => {
       expect(output).toContain("┴") // Bottom T-junction
     })
   })
+
+  describe("display width", () => {
+    it("sizes columns by display width for CJK, emoji and colors", () => {
+      const columns: TableColumn[] = [
+        { key: "name", header: "Name" },
+        { key: "n", header: "N" },
+      ]
+      const data = [
+        { name: "日本語", n: 1 },
+        { name: "\x1b[32mok\x1b[39m", n: 2 },
+        { name: "🚀", n: 3 },
+      ]
+
+      const lines = renderTable(columns, data, true).split("\n")
+      const border = stringWidth(lines[0]!)
+
+      for (const line of lines) {
+        expect(stringWidth(line)).toBe(border)
+      }
+      expect(lines[3]).toBe("│ 日本語 │ 1 │")
+    })
+
+    it("truncates wide text without splitting characters", () => {
+      const columns: TableColumn[] = [{ key: "x", header: "X", width: 4 }]
+      const output = renderTable(columns, [{ x: "日本語テキスト" }])
+
+      expect(output.split("\n")[1]).toBe("日… ")
+    })
+  })
 })
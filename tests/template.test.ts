@@ -0,0 +1,84 @@
+/**
+ * Tests for format-string templates
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  compileTemplate,
+  escapeTemplate,
+  renderTemplate,
+} from "../src/cli/template.js"
+
+describe("renderTemplate", () => {
+  it("replaces every occurrence of a token", () => {
+    expect(
+      renderTemplate(":current of :total (:current)", { current: 3, total: 9 }),
+    ).toBe("3 of 9 (3)")
+  })
+
+  it("matches the longest token name", () => {
+    const values = {
+      total: 10,
+      totalBytes: "2 MB",
+      eta: "0:05",
+      elapsed: "0:01",
+    }
+    expect(renderTemplate(":totalBytes :total", values)).toBe("2 MB 10")
+    expect(renderTemplate(":elapsed/:eta", values)).toBe("0:01/0:05")
+  })
+
+  it("leaves unknown tokens and plain colons alone", () => {
+    expect(renderTemplate("At 12:30 :unknown :n", { n: 1 })).toBe(
+      "At 12:30 :unknown 1",
+    )
+  })
+
+  it("pads to a width with alignment", () => {
+    const values = { percent: "5%" }
+    expect(renderTemplate("[:percent{4}]", values)).toBe("[5%  ]")
+    expect(renderTemplate("[:percent{4,right}]", values)).toBe("[  5%]")
+    expect(renderTemplate("[:percent{5,center}]", values)).toBe("[ 5%  ]")
+    expect(renderTemplate("[:percent{1}]", values)).toBe("[5%]")
+  })
+
+  it("pads by display width, ignoring ANSI codes", () => {
+    expect(renderTemplate(":v{4,right}|", { v: "\x1b[32m日\x1b[39m" })).toBe(
+      "  \x1b[32m日\x1b[39m|",
+    )
+  })
+
+  it("supports escaped colons and backslashes", () => {
+    expect(renderTemplate("\\:current \\\\:current", { current: 1 })).toBe(
+      ":current \\1",
+    )
+  })
+
+  it("calls function values lazily", () => {
+    let calls = 0
+    const values = {
+      used: () => "yes",
+      unused: () => {
+        calls++
+        return "no"
+      },
+    }
+    expect(renderTemplate(":used", values)).toBe("yes")
+    expect(calls).toBe(0)
+  })
+})
+
+describe("compileTemplate", () => {
+  it("lists the tokens it uses", () => {
+    expect(compileTemplate("[:bar] :percent{4,right} \\:x").tokens).toEqual([
+      "bar",
+      "percent",
+    ])
+  })
+})
+
+describe("escapeTemplate", () => {
+  it("round-trips arbitrary text", () => {
+    const text = "Step 1: C:\\build :total"
+    expect(renderTemplate(escapeTemplate(text), { total: 5 })).toBe(text)
+  })
+})
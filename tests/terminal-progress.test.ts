@@ -0,0 +1,141 @@
+/**
+ * Tests for terminal tab/taskbar progress (OSC 9;4)
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  createTerminalProgress,
+  terminalProgressSequence,
+} from "../src/cli/terminal-progress.js"
+import { ProgressBar } from "../src/cli/progress-bar.js"
+import { MultiProgress } from "../src/cli/multi-progress.js"
+import { setCapabilities } from "../src/utils/capabilities.js"
+import { allowTerminalSequences, createPipe, createTTY } from "./helpers.js"
+
+allowTerminalSequences()
+
+/** OSC 9;4 sequences in the output, as "state;percent" */
+function sequences(output: string): string[] {
+  return [...output.matchAll(/\x1b\]9;4;(\d;\d+)\x07/g)].map((m) => m[1]!)
+}
+
+describe("terminalProgressSequence", () => {
+  it("encodes state and a clamped percentage", () => {
+    expect(terminalProgressSequence("normal", 0.42)).toBe("\x1b]9;4;1;42\x07")
+    expect(terminalProgressSequence("error", 1.5)).toBe("\x1b]9;4;2;100\x07")
+    expect(terminalProgressSequence("indeterminate")).toBe("\x1b]9;4;3;0\x07")
+    expect(terminalProgressSequence("clear")).toBe("\x1b]9;4;0;0\x07")
+  })
+})
+
+describe("createTerminalProgress", () => {
+  it("skips repeats and clears only what it showed", () => {
+    const { stream, output } = createTTY()
+    const progress = createTerminalProgress(stream)
+
+    progress.clear()
+    progress.set("normal", 0.101)
+    progress.set("normal", 0.104)
+    progress.set("normal", 0.2)
+    progress.clear()
+    progress.clear()
+
+    expect(sequences(output())).toEqual(["1;10", "1;20", "0;0"])
+  })
+
+  it("writes nothing when disabled, not a terminal or in CI", () => {
+    const pipe = createPipe()
+    createTerminalProgress(pipe.stream).set("normal", 0.5)
+
+    const { stream, output } = createTTY()
+    createTerminalProgress(stream, false).set("normal", 0.5)
+    setCapabilities({ ci: true })
+    createTerminalProgress(stream).set("normal", 0.5)
+
+    expect(pipe.output()).toBe("")
+    expect(output()).toBe("")
+  })
+})
+
+describe("ProgressBar terminalProgress", () => {
+  it("mirrors progress and clears on stop", () => {
+    const { stream, output } = createTTY()
+    const bar = new ProgressBar({ total: 4, stream, terminalProgress: true })
+
+    bar.start()
+    bar.update(1)
+    bar.setFailed()
+    bar.stop()
+
+    expect(sequences(output())).toEqual(["1;0", "1;25", "2;25", "0;0"])
+  })
+
+  it("is indeterminate without a total", () => {
+    const { stream, output } = createTTY()
+    const bar = new ProgressBar({ stream, terminalProgress: true })
+
+    bar.start()
+    bar.stop()
+
+    expect(sequences(output())).toEqual(["3;0", "0;0"])
+  })
+
+  it("is off by default", () => {
+    const { stream, output } = createTTY()
+    const bar = new ProgressBar({ total: 4, stream })
+
+    bar.start()
+    bar.update(2)
+    bar.stop()
+
+    expect(sequences(output())).toEqual([])
+  })
+})
+
+describe("MultiProgress terminalProgress", () => {
+  it("shows aggregate progress, red once a task fails", () => {
+    const { stream, output } = createTTY()
+    const multi = new MultiProgress(stream, {
+      mode: "live",
+      terminalProgress: true,
+    })
+    const parse = multi.add("Parse", { type: "bar", total: 10 })
+    const upload = multi.add("Upload")
+
+    multi.start()
+    parse.start()
+    parse.update(5)
+    parse.complete()
+    upload.start()
+    upload.fail()
+    multi.stop()
+
+    expect(sequences(output())).toEqual([
+      "3;0",
+      "1;0",
+      "1;25",
+      "1;50",
+      "2;100",
+      "0;0",
+    ])
+  })
+
+  it("skips the aggregate when nothing is reported", () => {
+    const { stream } = createTTY()
+    const multi = new MultiProgress(stream, { mode: "live" })
+    const task = multi.add("Parse")
+    const scan = (multi as any).tasks.values
+    let scans = 0
+    ;(multi as any).tasks.values = function () {
+      scans++
+      return scan.call(this)
+    }
+
+    multi.start()
+    task.start()
+    task.complete()
+    multi.stop()
+
+    expect(scans).toBe(0)
+  })
+})
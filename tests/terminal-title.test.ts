@@ -0,0 +1,192 @@
+/**
+ * Tests for window title progress (OSC 0)
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  createTerminalTitle,
+  formatProgressTitle,
+  titleSequence,
+  TITLE_PUSH,
+  TITLE_POP,
+} from "../src/cli/terminal-title.js"
+import { MultiProgress } from "../src/cli/multi-progress.js"
+import { CURSOR_SHOW } from "../src/cli/ansi.js"
+import { setCapabilities } from "../src/utils/capabilities.js"
+import { allowTerminalSequences, createPipe, createTTY } from "./helpers.js"
+
+allowTerminalSequences()
+
+/** Titles set in the output, in order */
+function titles(output: string): string[] {
+  return [...output.matchAll(/\x1b\]0;([^\x07]*)\x07/g)].map((m) => m[1]!)
+}
+
+describe("formatProgressTitle", () => {
+  it("shows the percentage, step and program name", () => {
+    expect(formatProgressTitle(0.425, "Parsing markdown", "km sync")).toBe(
+      "[42%] Parsing markdown — km sync",
+    )
+    expect(formatProgressTitle(0.5, "Parsing markdown")).toBe(
+      "[50%] Parsing markdown",
+    )
+    expect(formatProgressTitle(1, undefined, "km sync")).toBe("[100%] km sync")
+  })
+})
+
+describe("titleSequence", () => {
+  it("removes styles and control characters", () => {
+    expect(titleSequence("\x1b[32mdone\x1b[39m\x07\n")).toBe("\x1b]0;done\x07")
+  })
+})
+
+describe("createTerminalTitle", () => {
+  it("saves the title once and restores it", () => {
+    const { stream, output } = createTTY()
+    const title = createTerminalTitle(stream)
+
+    title.set("[10%] Parse")
+    title.set("[10%] Parse")
+    title.set("[20%] Parse")
+    title.restore()
+    title.restore()
+
+    expect(output()).toBe(
+      TITLE_PUSH +
+        titleSequence("[10%] Parse") +
+        titleSequence("[20%] Parse") +
+        titleSequence("") +
+        TITLE_POP,
+    )
+  })
+
+  it("writes nothing when disabled, not a terminal or in CI", () => {
+    const pipe = createPipe()
+    createTerminalTitle(pipe.stream).set("Parse")
+
+    const { stream, output } = createTTY()
+    createTerminalTitle(stream, false).set("Parse")
+    setCapabilities({ ci: true })
+    createTerminalTitle(stream).set("Parse")
+
+    expect(pipe.output()).toBe("")
+    expect(output()).toBe("")
+  })
+
+  it("restores the title on exit", () => {
+    const { stream, output } = createTTY()
+    const title = createTerminalTitle(stream)
+    const listeners = process.listenerCount("exit")
+
+    title.set("Parse")
+    expect(process.listenerCount("exit")).toBe(listeners + 1)
+    process.emit("exit", 0)
+
+    expect(output().endsWith(TITLE_POP)).toBe(true)
+    expect(process.listenerCount("exit")).toBe(listeners)
+  })
+})
+
+describe("MultiProgress windowTitle", () => {
+  it("shows overall progress and the running task, restored on stop", () => {
+    const { stream, output } = createTTY()
+    const multi = new MultiProgress(stream, {
+      mode: "live",
+      windowTitle: "km sync",
+    })
+    const parse = multi.add("Parsing markdown")
+    const upload = multi.add("Uploading")
+
+    multi.start()
+    parse.start()
+    parse.complete()
+    upload.start()
+    upload.fail()
+    multi.stop()
+
+    expect(titles(output())).toEqual([
+      "[0%] km sync",
+      "[0%] Parsing markdown — km sync",
+      "[50%] km sync",
+      "[50%] Uploading — km sync",
+      "[100%] km sync",
+      "",
+    ])
+    expect(output().indexOf(TITLE_PUSH)).toBeLessThan(
+      output().indexOf("\x1b]0;"),
+    )
+    expect(output()).toContain(TITLE_POP)
+  })
+
+  it("formats the title only when it changes", () => {
+    const { stream } = createTTY()
+    const multi = new MultiProgress(stream, {
+      mode: "live",
+      windowTitle: true,
+    })
+    const scan = multi.add("Scan", { type: "bar", total: 1000 })
+    const titles: string[] = []
+    const title = (multi as any).terminalTitle
+    const set = title.set
+    title.set = (text: string) => {
+      titles.push(text)
+      set(text)
+    }
+
+    multi.start()
+    scan.start()
+    for (let i = 1; i <= 20; i++) scan.update(i)
+    multi.stop()
+
+    expect(titles).toEqual(["[0%]", "[0%] Scan", "[1%] Scan", "[2%] Scan"])
+  })
+
+  it("stops on a signal nobody handles, then lets it end the process", () => {
+    const { stream, output } = createTTY()
+    const multi = new MultiProgress(stream, {
+      mode: "live",
+      windowTitle: true,
+    })
+    multi.add("Parse").start()
+    const listeners = process.listenerCount("SIGINT")
+    const kill = process.kill
+    const killed: unknown[] = []
+    process.kill = ((_pid: number, signal?: string) => {
+      killed.push(signal)
+      return true
+    }) as typeof process.kill
+
+    try {
+      multi.start()
+      process.emit("SIGINT", "SIGINT")
+    } finally {
+      process.kill = kill
+    }
+
+    expect(killed).toEqual(["SIGINT"])
+    expect(output()).toContain(TITLE_POP)
+    expect(output().endsWith(CURSOR_SHOW)).toBe(true)
+    expect(process.listenerCount("SIGINT")).toBe(listeners)
+  })
+
+  it("leaves a signal to the host's own handler", () => {
+    const { stream, output } = createTTY()
+    const multi = new MultiProgress(stream, {
+      mode: "live",
+      windowTitle: true,
+    })
+    multi.add("Parse").start()
+    const onSignal = () => multi.stop()
+    process.on("SIGINT", onSignal)
+
+    try {
+      multi.start()
+      const before = output()
+      process.emit("SIGINT", "SIGINT")
+      // The host's handler stopped the display, once
+      expect(output().slice(before.length).split(TITLE_POP)).toHaveLength(2)
+    } finally {
+      process.off("SIGINT", onSignal)
+    }
+  })
+})
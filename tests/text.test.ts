@@ -0,0 +1,104 @@
+/**
+ * Tests for display-width text helpers
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  stripAnsi,
+  stringWidth,
+  truncate,
+  wrap,
+  countRows,
+} from "../src/cli/text.js"
+
+const green = (s: string) => `\x1b[32m${s}\x1b[39m`
+
+describe("stripAnsi", () => {
+  it("removes color and cursor sequences", () => {
+    expect(stripAnsi(`${green("ok")}\x1b[2K`)).toBe("ok")
+  })
+})
+
+describe("stringWidth", () => {
+  it("ignores ANSI codes", () => {
+    expect(stringWidth(green("✔ done"))).toBe(6)
+  })
+
+  it("counts wide characters as two columns", () => {
+    expect(stringWidth("日本語")).toBe(6)
+    expect(stringWidth("ｆｕｌｌ")).toBe(8)
+  })
+
+  it("counts combining marks as zero columns", () => {
+    expect(stringWidth("é")).toBe(1)
+  })
+
+  it("counts emoji sequences as one two-column character", () => {
+    expect(stringWidth("👩‍💻")).toBe(2)
+    expect(stringWidth("🇯🇵")).toBe(2)
+    expect(stringWidth("1️⃣")).toBe(2)
+    expect(stringWidth("✔️ ok")).toBe(5)
+  })
+})
+
+describe("truncate", () => {
+  it("returns text unchanged when it fits", () => {
+    expect(truncate("short", 10)).toBe("short")
+  })
+
+  it("cuts to width with an ellipsis", () => {
+    expect(truncate("Parsing markdown files", 10)).toBe("Parsing m…")
+  })
+
+  it("keeps escape sequences intact", () => {
+    const result = truncate(green("Parsing markdown"), 8)
+    expect(result).toBe("\x1b[32mParsing…\x1b[39m")
+    expect(stringWidth(result)).toBe(8)
+  })
+
+  it("does not split wide characters", () => {
+    expect(truncate("日本語テキスト", 6)).toBe("日本…")
+  })
+
+  it("does not split emoji sequences", () => {
+    expect(truncate("ab👩‍💻cd", 4)).toBe("ab…")
+    expect(truncate("👩‍💻👩‍💻👩‍💻", 5)).toBe("👩‍💻👩‍💻…")
+  })
+})
+
+describe("wrap", () => {
+  it("breaks lines at spaces", () => {
+    expect(wrap("Parsing markdown files in docs", 12)).toBe(
+      "Parsing\nmarkdown\nfiles in\ndocs",
+    )
+  })
+
+  it("keeps existing newlines and leading indentation", () => {
+    expect(wrap("  indented text here\nnext", 10)).toBe(
+      "  indented\ntext here\nnext",
+    )
+  })
+
+  it("splits words wider than the line", () => {
+    expect(wrap("abcdefghijkl mn", 5)).toBe("abcde\nfghij\nkl mn")
+    expect(wrap("日本語テキスト", 5)).toBe("日本\n語テ\nキス\nト")
+  })
+
+  it("re-applies styles on each row", () => {
+    const rows = wrap(green("Parsing markdown files") + " done", 10).split("\n")
+
+    expect(rows).toEqual([
+      "\x1b[32mParsing\x1b[0m",
+      "\x1b[32mmarkdown\x1b[0m",
+      "\x1b[32mfiles\x1b[39m done",
+    ])
+  })
+})
+
+describe("countRows", () => {
+  it("counts wrapped rows", () => {
+    expect(countRows("abcdef", 4)).toBe(2)
+    expect(countRows("", 4)).toBe(1)
+    expect(countRows(green("abcd"), 4)).toBe(1)
+  })
+})
@@ -0,0 +1,91 @@
+/**
+ * Tests for the shared theme
+ */
+
+import { describe, it, expect, afterEach } from "vitest"
+import {
+  DEFAULT_THEME,
+  getTheme,
+  mergeTheme,
+  resolveTheme,
+  setTheme,
+} from "../src/utils/theme.js"
+import { Spinner } from "../src/cli/spinner.js"
+import { MultiProgress } from "../src/cli/multi-progress.js"
+import { createPipe } from "./helpers.js"
+
+afterEach(() => {
+  setTheme({})
+})
+
+describe("mergeTheme", () => {
+  it("merges each section separately", () => {
+    const theme = mergeTheme(DEFAULT_THEME, {
+      icons: { completed: "✓" },
+      colors: { running: "magenta" },
+      spinner: "arc",
+    })
+
+    expect(theme.icons.completed).toBe("✓")
+    expect(theme.icons.failed).toBe("✖")
+    expect(theme.colors.running).toBe("magenta")
+    expect(theme.colors.completed).toBe("green")
+    expect(theme.spinner).toBe("arc")
+    expect(theme.bar).toBe("block")
+  })
+})
+
+describe("setTheme", () => {
+  it("sets the global theme over the defaults", () => {
+    setTheme({ icons: { failed: "✗" } })
+    setTheme({ bar: "ascii" })
+
+    // Each call starts again from the built-in theme
+    expect(getTheme().icons.failed).toBe("✖")
+    expect(getTheme().bar).toBe("ascii")
+
+    setTheme({})
+    expect(getTheme()).toEqual(DEFAULT_THEME)
+  })
+
+  it("is the base for per-instance overrides", () => {
+    setTheme({ icons: { completed: "✓" } })
+    const theme = resolveTheme({ icons: { skipped: "-" } })
+
+    expect(theme.icons.completed).toBe("✓")
+    expect(theme.icons.skipped).toBe("-")
+  })
+})
+
+describe("themed components", () => {
+  it("Spinner results use the theme's icons", () => {
+    const { stream, output } = createPipe()
+    const spinner = new Spinner({
+      text: "Build",
+      stream: stream as any,
+      theme: { icons: { completed: "OK", warning: "!!" } },
+    })
+
+    spinner.succeed()
+    spinner.warn("Cache stale")
+
+    expect(output()).toContain("OK Build")
+    expect(output()).toContain("!! Cache stale")
+  })
+
+  it("MultiProgress reads the global theme when created", () => {
+    setTheme({ icons: { started: ">>", completed: "done" } })
+    const { stream, output } = createPipe()
+    const multi = new MultiProgress(stream as any, { mode: "plain" })
+    const task = multi.add("Parse")
+    setTheme({})
+
+    multi.start()
+    task.start()
+    task.complete()
+    multi.stop()
+
+    expect(output()).toContain(">> Parse")
+    expect(output()).toContain("done Parse")
+  })
+})
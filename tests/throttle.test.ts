@@ -0,0 +1,70 @@
+/**
+ * Tests for render throttling
+ */
+
+import { describe, it, expect } from "vitest"
+import { createThrottle } from "../src/utils/throttle.js"
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms))
+
+describe("createThrottle", () => {
+  it("runs the first call and collapses the rest into one trailing run", async () => {
+    let runs = 0
+    const throttle = createThrottle(() => runs++, 20)
+
+    throttle.schedule()
+    throttle.schedule()
+    throttle.schedule()
+    expect(runs).toBe(1)
+
+    await sleep(40)
+    expect(runs).toBe(2)
+  })
+
+  it("flushes a pending run immediately", () => {
+    let runs = 0
+    const throttle = createThrottle(() => runs++, 1000)
+
+    throttle.flush()
+    expect(runs).toBe(0)
+
+    throttle.schedule()
+    throttle.schedule()
+    throttle.flush()
+    expect(runs).toBe(2)
+
+    // Nothing left pending
+    throttle.flush()
+    expect(runs).toBe(2)
+  })
+
+  it("drops a pending run on cancel", async () => {
+    let runs = 0
+    const throttle = createThrottle(() => runs++, 20)
+
+    throttle.schedule()
+    throttle.schedule()
+    throttle.cancel()
+    await sleep(40)
+    expect(runs).toBe(1)
+  })
+
+  it("waits for the end of the interval without the leading edge", async () => {
+    let runs = 0
+    const throttle = createThrottle(() => runs++, 20, { leading: false })
+
+    for (let i = 0; i < 5; i++) throttle.schedule()
+    expect(runs).toBe(0)
+
+    await sleep(40)
+    expect(runs).toBe(1)
+  })
+
+  it("runs every call with a zero interval", () => {
+    let runs = 0
+    const throttle = createThrottle(() => runs++, 0)
+
+    for (let i = 0; i < 5; i++) throttle.schedule()
+    expect(runs).toBe(5)
+  })
+})
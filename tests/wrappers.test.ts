@@ -8,7 +8,11 @@ import {
   withProgress,
   createProgressCallback,
 } from "../src/wrappers/with-progress.js"
-import { wrapGenerator } from "../src/wrappers/wrap-generator.js"
+import {
+  wrapGenerator,
+  withIterableProgress,
+} from "../src/wrappers/wrap-generator.js"
+import { stripAnsi } from "../src/cli/text.js"
 import type { ProgressCallback } from "../src/types.js"
 
 // Capture stdout at top level to cover all progress/spinner tests
@@ -127,4 +131,58 @@ describe("wrapGenerator", () => {
     })
     expect(result).toBe("done")
   })
+
+  it("accepts a function for the text", async () => {
+    function* gen() {
+      yield { current: 1, total: 2 }
+      yield { current: 2, total: 2 }
+      return 42
+    }
+
+    const written: string[] = []
+    process.stdout.write = ((chunk: string) => {
+      written.push(String(chunk))
+      return true
+    }) as typeof process.stdout.write
+    // Only rendered on a TTY
+    const forceTTY = process.env.FORCE_TTY
+    process.env.FORCE_TTY = "1"
+
+    try {
+      const result = await wrapGenerator(
+        gen(),
+        ({ current, total }) => `Item ${current} of ${total}`,
+      )
+      expect(result).toBe(42)
+    } finally {
+      if (forceTTY === undefined) delete process.env.FORCE_TTY
+      else process.env.FORCE_TTY = forceTTY
+    }
+
+    const lines = stripAnsi(written.join("")).split(/[\r\n]+/)
+    expect(lines).toContain(`${"█".repeat(40)} 2/2 100% Item 2 of 2`)
+  })
+})
+
+describe("withIterableProgress", () => {
+  it("yields every item of an array", async () => {
+    const seen: number[] = []
+    for await (const item of withIterableProgress([1, 2, 3], "Processing")) {
+      seen.push(item)
+    }
+    expect(seen).toEqual([1, 2, 3])
+  })
+
+  it("yields every item of an iterable with unknown length", async () => {
+    async function* lines() {
+      yield "a"
+      yield "b"
+    }
+
+    const seen: string[] = []
+    for await (const line of withIterableProgress(lines(), "Reading")) {
+      seen.push(line)
+    }
+    expect(seen).toEqual(["a", "b"])
+  })
 })